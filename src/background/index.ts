@@ -8,12 +8,19 @@
 // ============================================================================
 
 import {
-  session,
+  registry,
+  sessions,
   createLogger,
   getLogs,
   clearLogs,
   addLog,
+  sessionScopeMiddleware,
+  timingMiddleware,
+  auditMiddleware,
+  contentRetryMiddleware,
 } from "../core/index.js";
+import type { ConnectOptions } from "../core/index.js";
+import type { AuthProof } from "../types/index.js";
 
 // Module handlers (self-register on import)
 import "./modules/session/index.js";
@@ -25,6 +32,8 @@ import "./modules/network/index.js";
 import "./modules/proxy/index.js";
 import "./modules/storage/index.js";
 
+import { onFrameUnloaded } from "./modules/browsing-context/events.js";
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -33,6 +42,8 @@ interface WebDriverInitMessage {
   type: "WEBDRIVER_INIT";
   wsUrl: string;
   sessionId: number;
+  minProtocolVersion?: string;
+  auth?: AuthProof;
 }
 
 interface GetStateMessage {
@@ -53,6 +64,10 @@ interface ContentEventMessage {
   params: Record<string, unknown>;
 }
 
+interface FrameUnloadedMessage {
+  type: "FRAME_UNLOADED";
+}
+
 interface ContentLogMessage {
   type: "CONTENT_LOG";
   level: "debug" | "info" | "warn" | "error";
@@ -79,10 +94,19 @@ function isWebDriverInitMessage(
   return (
     msg.type === "WEBDRIVER_INIT" &&
     typeof msg.wsUrl === "string" &&
-    typeof msg.sessionId === "number"
+    typeof msg.sessionId === "number" &&
+    (msg.minProtocolVersion === undefined ||
+      typeof msg.minProtocolVersion === "string") &&
+    (msg.auth === undefined || isAuthProof(msg.auth))
   );
 }
 
+function isAuthProof(value: unknown): value is AuthProof {
+  if (typeof value !== "object" || value === null) return false;
+  const proof = value as Record<string, unknown>;
+  return typeof proof.nonce === "string" && typeof proof.mac === "string";
+}
+
 function isGetStateMessage(message: unknown): message is GetStateMessage {
   if (typeof message !== "object" || message === null) return false;
   const msg = message as Record<string, unknown>;
@@ -113,6 +137,14 @@ function isContentEventMessage(
   );
 }
 
+function isFrameUnloadedMessage(
+  message: unknown
+): message is FrameUnloadedMessage {
+  if (typeof message !== "object" || message === null) return false;
+  const msg = message as Record<string, unknown>;
+  return msg.type === "FRAME_UNLOADED";
+}
+
 function isContentLogMessage(message: unknown): message is ContentLogMessage {
   if (typeof message !== "object" || message === null) return false;
   const msg = message as Record<string, unknown>;
@@ -135,11 +167,22 @@ browser.runtime.onMessage.addListener(
     sendResponse: (response: unknown) => void
   ): boolean | Promise<boolean> => {
     if (isWebDriverInitMessage(message)) {
-      const { wsUrl, sessionId } = message;
-      log.info("Received WEBDRIVER_INIT, connecting...", { wsUrl, sessionId });
+      const { wsUrl, sessionId, minProtocolVersion, auth } = message;
+      log.info("Received WEBDRIVER_INIT, connecting...", {
+        wsUrl,
+        sessionId,
+        minProtocolVersion,
+      });
+
+      const options: ConnectOptions = {};
+      if (minProtocolVersion !== undefined) {
+        options.minProtocolVersion = minProtocolVersion;
+      }
+      if (sender.tab) options.tab = sender.tab;
+      if (auth !== undefined) options.auth = auth;
 
-      session
-        .connect(wsUrl, sessionId)
+      sessions
+        .connect(wsUrl, sessionId, options)
         .then(() => {
           log.info("WebSocket connected");
           sendResponse({ success: true });
@@ -153,7 +196,7 @@ browser.runtime.onMessage.addListener(
     }
 
     if (isGetStateMessage(message)) {
-      session
+      sessions
         .getDebugState()
         .then((state) => sendResponse(state))
         .catch(() => sendResponse(null));
@@ -196,8 +239,18 @@ browser.runtime.onMessage.addListener(
           });
       }
 
-      session.sendEvent(method, eventParams);
+      const owner = sessions.forTab(tabId);
+      if (owner?.isConnected()) {
+        owner.sendEvent(method, eventParams);
+      }
+
+      return false;
+    }
 
+    if (isFrameUnloadedMessage(message)) {
+      if (sender.tab?.id !== undefined && sender.frameId !== undefined) {
+        onFrameUnloaded(sender.tab.id, sender.frameId);
+      }
       return false;
     }
 
@@ -215,4 +268,9 @@ browser.runtime.onMessage.addListener(
 // Startup
 // ============================================================================
 
+registry.use(sessionScopeMiddleware);
+registry.use(timingMiddleware);
+registry.use(auditMiddleware);
+registry.use(contentRetryMiddleware);
+
 log.info("Firefox WebDriver Extension loaded");
@@ -0,0 +1,483 @@
+/**
+ * @fileoverview Viewport capture and scroll-and-stitch of document regions.
+ *
+ * `captureVisibleTab` only sees the viewport of the window's active tab, so
+ * a background tab is activated while it is captured and the previously
+ * active tab is switched back afterwards. Larger regions are
+ * captured as viewport-sized tiles: the content script scrolls the page to
+ * each tile, and the tiles are drawn onto an OffscreenCanvas. Fixed elements,
+ * and sticky elements stuck to a viewport edge, are hidden after the first
+ * tile so headers are not repeated, and the original scroll position is
+ * restored afterwards.
+ *
+ * Only the top-level document is scrolled. Regions inside frames are
+ * captured as far as the frame currently shows them.
+ *
+ * @module modules/browsingContext/capture
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { ErrorCode } from "../../../types/index.js";
+
+import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+import { Attachment } from "../../../core/attachments.js";
+
+import { getTabWindow } from "./tabs.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ImageFormat = "png" | "jpeg";
+
+/** Rectangle in CSS pixels. */
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PageMetrics {
+  scrollX: number;
+  scrollY: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  documentWidth: number;
+  documentHeight: number;
+  dpr: number;
+}
+
+interface PrepareResponse {
+  success: boolean;
+  metrics?: PageMetrics;
+}
+
+interface ScrollResponse {
+  success: boolean;
+  scrollX: number;
+  scrollY: number;
+}
+
+interface FrameOffsetResponse {
+  success: boolean;
+  x?: number;
+  y?: number;
+  error?: string;
+  code?: string;
+}
+
+interface CaptureOptions {
+  /** Aborts between tiles. */
+  signal?: AbortSignal;
+  /** Clip and masks are relative to the top-level viewport, not the document. */
+  viewportRelative?: boolean;
+  /** Regions painted over with `maskColor` after stitching. */
+  masks?: Rect[];
+  /** CSS color for masks. */
+  maskColor?: string;
+}
+
+/** Stitched region of the document. */
+interface DocumentCapture {
+  canvas: OffscreenCanvas;
+  /** Captured rectangle in document CSS pixels. */
+  rect: Rect;
+  /** Device pixels per CSS pixel. */
+  scale: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("BrowsingContext.Capture");
+
+/** Largest canvas side Firefox can allocate. */
+const MAX_CANVAS_DIMENSION = 32767;
+
+/** Largest canvas area (pixels) accepted for a stitched capture. */
+const MAX_CANVAS_AREA = 268_435_456;
+
+const DEFAULT_JPEG_QUALITY = 80;
+
+const DEFAULT_MASK_COLOR = "#FF00FF";
+
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+/**
+ * Runs a capture with a tab active in its window.
+ *
+ * A background tab is activated for the capture, and the tab that was
+ * active before is activated again afterwards.
+ *
+ * @param tabId - Tab ID
+ * @param capture - Receives the tab's window ID
+ * @returns Result of `capture`
+ * @throws WebDriverError (`no such tab`) if the tab has no window
+ */
+async function withCaptureTab<T>(
+  tabId: number,
+  capture: (windowId: number) => Promise<T>
+): Promise<T> {
+  const windowId = await getTabWindow(tabId);
+  const [previous] = await browser.tabs.query({ active: true, windowId });
+  if (previous?.id === tabId) {
+    return capture(windowId);
+  }
+
+  log.debug(`Activating tab ${tabId} for capture`);
+  await browser.tabs.update(tabId, { active: true });
+  try {
+    return await capture(windowId);
+  } finally {
+    if (previous?.id !== undefined) {
+      await browser.tabs
+        .update(previous.id, { active: true })
+        .catch((err: unknown) => {
+          log.warn(`Failed to reactivate tab ${previous.id}`, err);
+        });
+    }
+  }
+}
+
+/**
+ * Captures the visible viewport of a window as a bitmap.
+ *
+ * @param windowId - Window ID
+ * @returns Lossless viewport bitmap
+ */
+async function captureViewport(windowId: number): Promise<ImageBitmap> {
+  const dataUrl = await browser.tabs.captureVisibleTab(windowId, {
+    format: "png",
+  });
+  return decodeImage(dataUrl);
+}
+
+/**
+ * Decodes a data URL into a bitmap.
+ *
+ * @param dataUrl - Image data URL
+ * @returns Bitmap
+ * @throws WebDriverError (`invalid argument`) if the image cannot be decoded
+ */
+async function decodeImage(dataUrl: string): Promise<ImageBitmap> {
+  try {
+    const blob = await (await fetch(dataUrl)).blob();
+    return await createImageBitmap(blob);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      `Failed to decode image: ${message}`
+    );
+  }
+}
+
+/**
+ * Encodes a canvas as an image attachment.
+ *
+ * @param canvas - Canvas to encode
+ * @param format - Image format
+ * @param quality - JPEG quality (0-100)
+ * @returns Image attachment
+ */
+async function encodeCanvas(
+  canvas: OffscreenCanvas,
+  format: ImageFormat,
+  quality?: number
+): Promise<Attachment> {
+  const mimeType = format === "jpeg" ? "image/jpeg" : "image/png";
+  const options: ImageEncodeOptions = { type: mimeType };
+  if (format === "jpeg") {
+    options.quality = (quality ?? DEFAULT_JPEG_QUALITY) / 100;
+  }
+
+  const blob = await canvas.convertToBlob(options);
+  return Attachment.fromBytes(
+    new Uint8Array(await blob.arrayBuffer()),
+    mimeType
+  );
+}
+
+/**
+ * Creates a 2D canvas, checking the size against browser limits.
+ *
+ * @param width - Width in device pixels
+ * @param height - Height in device pixels
+ * @returns Canvas and its context
+ * @throws WebDriverError (`invalid argument`) if the size is too large
+ */
+function createCanvas(
+  width: number,
+  height: number
+): { canvas: OffscreenCanvas; context: OffscreenCanvasRenderingContext2D } {
+  if (
+    width > MAX_CANVAS_DIMENSION ||
+    height > MAX_CANVAS_DIMENSION ||
+    width * height > MAX_CANVAS_AREA
+  ) {
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      `Capture of ${width}x${height} pixels exceeds the canvas limit`,
+      { width, height }
+    );
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new WebDriverError(
+      ErrorCode.UnknownError,
+      "Failed to create canvas context"
+    );
+  }
+  return { canvas, context };
+}
+
+/**
+ * Gets the position of a frame's viewport in the top-level viewport.
+ *
+ * @param tabId - Tab ID
+ * @param frameId - Frame ID
+ * @returns Offset in CSS pixels
+ * @throws WebDriverError (`no such frame`) if a frame in the chain is gone
+ */
+async function getFrameOffset(
+  tabId: number,
+  frameId: number
+): Promise<{ x: number; y: number }> {
+  const offset = { x: 0, y: 0 };
+
+  while (frameId !== 0) {
+    const frame = await browser.webNavigation.getFrame({ tabId, frameId });
+    if (!frame) {
+      throw new WebDriverError(
+        ErrorCode.NoSuchFrame,
+        `Frame not found: ${frameId}`,
+        { frameId }
+      );
+    }
+
+    const response = (await browser.tabs.sendMessage(
+      tabId,
+      { type: "SCREENSHOT_FRAME_OFFSET", frameId },
+      { frameId: frame.parentFrameId }
+    )) as FrameOffsetResponse | undefined;
+
+    if (!response?.success) {
+      throw WebDriverError.fromContentResponse(
+        response,
+        "Failed to locate frame",
+        ErrorCode.NoSuchFrame
+      );
+    }
+
+    offset.x += response.x ?? 0;
+    offset.y += response.y ?? 0;
+    frameId = frame.parentFrameId;
+  }
+
+  return offset;
+}
+
+function translate(rect: Rect, dx: number, dy: number): Rect {
+  return { ...rect, x: rect.x + dx, y: rect.y + dy };
+}
+
+function intersect(a: Rect, b: Rect): Rect | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  if (right <= x || bottom <= y) return null;
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+// ============================================================================
+// Implementation - Stitching
+// ============================================================================
+
+/**
+ * Captures a region of the top-level document by scrolling and stitching.
+ *
+ * @param tabId - Tab ID
+ * @param clip - Region in CSS pixels, or null for the full page
+ * @param options - Abort signal, coordinate space and masks
+ * @returns Stitched capture
+ * @throws WebDriverError (`invalid argument`) if the region is empty or too large
+ */
+function captureDocument(
+  tabId: number,
+  clip: Rect | null,
+  options: CaptureOptions = {}
+): Promise<DocumentCapture> {
+  return withCaptureTab(tabId, (windowId) =>
+    stitchDocument(tabId, windowId, clip, options)
+  );
+}
+
+async function stitchDocument(
+  tabId: number,
+  windowId: number,
+  clip: Rect | null,
+  options: CaptureOptions
+): Promise<DocumentCapture> {
+  const { signal, viewportRelative = false, masks = [] } = options;
+
+  const prepare = (await browser.tabs.sendMessage(
+    tabId,
+    { type: "SCREENSHOT_PREPARE" },
+    { frameId: 0 }
+  )) as PrepareResponse | undefined;
+
+  if (!prepare?.success || !prepare.metrics) {
+    throw new WebDriverError(
+      ErrorCode.UnknownError,
+      "Failed to read page metrics"
+    );
+  }
+
+  try {
+    const metrics = prepare.metrics;
+    const page: Rect = {
+      x: 0,
+      y: 0,
+      width: metrics.documentWidth,
+      height: metrics.documentHeight,
+    };
+
+    // Viewport coordinates become document coordinates at the current scroll
+    const toDocument = (r: Rect): Rect =>
+      viewportRelative ? translate(r, metrics.scrollX, metrics.scrollY) : r;
+
+    const rect = intersect(clip ? toDocument(clip) : page, page);
+    if (!rect) {
+      throw new WebDriverError(
+        ErrorCode.InvalidArgument,
+        "Clip rectangle is outside the document",
+        { clip }
+      );
+    }
+
+    const scale = metrics.dpr;
+    const { canvas, context } = createCanvas(
+      Math.round(rect.width * scale),
+      Math.round(rect.height * scale)
+    );
+
+    log.debug(
+      `captureDocument: rect=${JSON.stringify(rect)}, viewport=${metrics.viewportWidth}x${metrics.viewportHeight}, dpr=${scale}`
+    );
+
+    let tiles = 0;
+    for (
+      let y = rect.y;
+      y < rect.y + rect.height;
+      y += metrics.viewportHeight
+    ) {
+      for (
+        let x = rect.x;
+        x < rect.x + rect.width;
+        x += metrics.viewportWidth
+      ) {
+        signal?.throwIfAborted();
+
+        const scroll = (await browser.tabs.sendMessage(
+          tabId,
+          { type: "SCREENSHOT_SCROLL", x, y, hideFixed: tiles > 0 },
+          { frameId: 0 }
+        )) as ScrollResponse | undefined;
+
+        if (!scroll?.success) {
+          throw new WebDriverError(
+            ErrorCode.UnknownError,
+            "Failed to scroll the page for capture",
+            { x, y }
+          );
+        }
+
+        const tile = await captureViewport(windowId);
+
+        // Part of this tile's cell that is visible after scroll clamping
+        const visible = intersect(
+          {
+            x,
+            y,
+            width: metrics.viewportWidth,
+            height: metrics.viewportHeight,
+          },
+          {
+            x: scroll.scrollX,
+            y: scroll.scrollY,
+            width: metrics.viewportWidth,
+            height: metrics.viewportHeight,
+          }
+        );
+        const region = visible ? intersect(visible, rect) : null;
+
+        if (region) {
+          context.drawImage(
+            tile,
+            Math.round((region.x - scroll.scrollX) * scale),
+            Math.round((region.y - scroll.scrollY) * scale),
+            Math.round(region.width * scale),
+            Math.round(region.height * scale),
+            Math.round((region.x - rect.x) * scale),
+            Math.round((region.y - rect.y) * scale),
+            Math.round(region.width * scale),
+            Math.round(region.height * scale)
+          );
+        }
+
+        tile.close();
+        tiles++;
+      }
+    }
+
+    context.fillStyle = options.maskColor ?? DEFAULT_MASK_COLOR;
+    for (const mask of masks) {
+      const region = intersect(toDocument(mask), rect);
+      if (!region) continue;
+      context.fillRect(
+        Math.round((region.x - rect.x) * scale),
+        Math.round((region.y - rect.y) * scale),
+        Math.round(region.width * scale),
+        Math.round(region.height * scale)
+      );
+    }
+
+    log.debug(
+      `captureDocument: stitched ${tiles} tiles, ${masks.length} masks`
+    );
+
+    return { canvas, rect, scale };
+  } finally {
+    await browser.tabs
+      .sendMessage(tabId, { type: "SCREENSHOT_RESTORE" }, { frameId: 0 })
+      .catch((err: unknown) => {
+        log.warn("Failed to restore scroll position", err);
+      });
+  }
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { ImageFormat, Rect, CaptureOptions, DocumentCapture };
+export {
+  withCaptureTab,
+  getFrameOffset,
+  captureViewport,
+  captureDocument,
+  decodeImage,
+  encodeCanvas,
+  createCanvas,
+};
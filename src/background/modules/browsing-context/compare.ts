@@ -0,0 +1,343 @@
+/**
+ * @fileoverview Screenshot comparison handler.
+ *
+ * Captures the viewport, a document region or an element and diffs it
+ * against a baseline image, so the driver does not need both images to
+ * detect visual changes. The diff runs in row chunks that yield to the event
+ * loop, so other sessions keep being served and the request can be
+ * cancelled; images larger than `MAX_COMPARE_PIXELS` are rejected.
+ *
+ * @module modules/browsingContext/compare
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
+
+import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+import type { Attachment } from "../../../core/attachments.js";
+
+import type { Rect } from "./capture.js";
+import {
+  captureDocument,
+  captureViewport,
+  createCanvas,
+  decodeImage,
+  encodeCanvas,
+  withCaptureTab,
+} from "./capture.js";
+import type { ElementTarget } from "../element/screenshot.js";
+import { captureElement } from "../element/screenshot.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CompareScreenshotParams {
+  /** Baseline image as base64 or data URL (PNG or JPEG). */
+  baseline: string;
+  /** Compare an element instead of the viewport. */
+  elementId?: string;
+  padding?: number;
+  mask?: string[];
+  maskColor?: string;
+  /** Compare the whole document instead of the viewport. */
+  fullPage?: boolean;
+  /** Compare a document region instead of the viewport. */
+  clip?: Rect;
+  /** Per-pixel color distance (0-1) tolerated before a pixel mismatches. */
+  threshold?: number;
+  /** Regions excluded from the comparison, in CSS pixels of the capture. */
+  ignore?: Rect[];
+  /** Return the diff image (default true). */
+  includeDiff?: boolean;
+}
+
+interface CompareScreenshotResult {
+  /** Mismatched share of compared pixels (0-100). */
+  mismatchPercentage: number;
+  mismatchedPixels: number;
+  /** Compared pixels, excluding ignored regions. */
+  totalPixels: number;
+  /** False if baseline and capture differ in size. */
+  dimensionsMatch: boolean;
+  /** Compared area in device pixels. */
+  width: number;
+  height: number;
+  /** Capture faded to gray with mismatched pixels in red. */
+  diff?: Attachment;
+}
+
+interface Capture {
+  canvas: OffscreenCanvas;
+  /** Device pixels per CSS pixel. */
+  scale: number;
+}
+
+interface PixelDiff {
+  mismatched: number;
+  compared: number;
+  diff: ImageData;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("BrowsingContext.Compare");
+
+const DEFAULT_THRESHOLD = 0.1;
+
+/** Opacity of unchanged pixels in the diff image. */
+const DIFF_FADE = 0.1;
+
+const DIFF_COLOR = [255, 0, 0] as const;
+
+/** Largest compared area (device pixels) accepted, about 6000x6000. */
+const MAX_COMPARE_PIXELS = 36_000_000;
+
+/** Pixels diffed between yields to the event loop. */
+const DIFF_CHUNK_PIXELS = 1_000_000;
+
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+function toDataUrl(image: string): string {
+  return image.startsWith("data:") ? image : `data:image/png;base64,${image}`;
+}
+
+function bitmapToCanvas(bitmap: ImageBitmap): OffscreenCanvas {
+  const { canvas, context } = createCanvas(bitmap.width, bitmap.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+function readPixels(canvas: OffscreenCanvas): ImageData {
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return new ImageData(canvas.width, canvas.height);
+  }
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Rejects comparisons over the pixel limit.
+ *
+ * @throws WebDriverError (`invalid argument`) if the area is too large
+ */
+function assertComparable(width: number, height: number): void {
+  if (width * height > MAX_COMPARE_PIXELS) {
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      `Compared area ${width}x${height} exceeds ${MAX_COMPARE_PIXELS} pixels`,
+      { width, height, maxPixels: MAX_COMPARE_PIXELS }
+    );
+  }
+}
+
+/**
+ * Marks the ignored pixels of one row.
+ *
+ * @param mask - Row mask, overwritten
+ * @param y - Row index
+ * @param ignore - Ignored regions in device pixels
+ */
+function fillIgnoreMask(mask: Uint8Array, y: number, ignore: Rect[]): void {
+  mask.fill(0);
+  for (const r of ignore) {
+    if (y < r.y || y >= r.y + r.height) continue;
+    mask.fill(1, Math.max(0, r.x), Math.min(mask.length, r.x + r.width));
+  }
+}
+
+async function getDevicePixelRatio(tabId: number): Promise<number> {
+  try {
+    const response = (await browser.tabs.sendMessage(
+      tabId,
+      { type: "GET_DEVICE_PIXEL_RATIO" },
+      { frameId: 0 }
+    )) as { dpr?: number } | undefined;
+    return response?.dpr || 1;
+  } catch {
+    return 1;
+  }
+}
+
+async function captureTarget(
+  params: CompareScreenshotParams,
+  ctx: RequestContext
+): Promise<Capture> {
+  const { elementId, padding, mask, maskColor, fullPage, clip } = params;
+
+  if (elementId !== undefined) {
+    const target: ElementTarget = { elementId };
+    if (padding !== undefined) target.padding = padding;
+    if (mask !== undefined) target.mask = mask;
+    if (maskColor !== undefined) target.maskColor = maskColor;
+    return captureElement(ctx, target);
+  }
+
+  if (fullPage || clip) {
+    return captureDocument(ctx.tabId, clip ?? null, { signal: ctx.signal });
+  }
+
+  const scale = await getDevicePixelRatio(ctx.tabId);
+  const bitmap = await withCaptureTab(ctx.tabId, captureViewport);
+  return { canvas: bitmapToCanvas(bitmap), scale };
+}
+
+/**
+ * Compares two images pixel by pixel.
+ *
+ * Pixels outside either image count as mismatched. Rows are processed in
+ * chunks, yielding and checking `signal` between them.
+ *
+ * @param actual - Captured pixels
+ * @param baseline - Baseline pixels
+ * @param threshold - Tolerated color distance (0-1)
+ * @param ignore - Ignored regions in device pixels
+ * @param signal - Stops the diff on abort
+ * @returns Mismatch counts and diff image
+ */
+async function diffPixels(
+  actual: ImageData,
+  baseline: ImageData,
+  threshold: number,
+  ignore: Rect[],
+  signal: AbortSignal
+): Promise<PixelDiff> {
+  const width = Math.max(actual.width, baseline.width);
+  const height = Math.max(actual.height, baseline.height);
+  const diff = new ImageData(width, height);
+  const limit = threshold * 255;
+  const ignoreMask = new Uint8Array(width);
+  const rowsPerChunk = Math.max(1, Math.floor(DIFF_CHUNK_PIXELS / width));
+
+  let mismatched = 0;
+  let compared = 0;
+
+  for (let y = 0; y < height; y++) {
+    if (y > 0 && y % rowsPerChunk === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal.throwIfAborted();
+    }
+    fillIgnoreMask(ignoreMask, y, ignore);
+
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const ignored = ignoreMask[x] === 1;
+
+      const inActual = x < actual.width && y < actual.height;
+      const inBaseline = x < baseline.width && y < baseline.height;
+      const a = (y * actual.width + x) * 4;
+      const b = (y * baseline.width + x) * 4;
+
+      let matches = inActual && inBaseline;
+      for (let c = 0; matches && c < 4; c++) {
+        const delta = Math.abs(
+          (actual.data[a + c] ?? 0) - (baseline.data[b + c] ?? 0)
+        );
+        if (delta > limit) matches = false;
+      }
+
+      if (!ignored) {
+        compared++;
+        if (!matches) mismatched++;
+      }
+
+      if (!ignored && !matches) {
+        diff.data[out] = DIFF_COLOR[0];
+        diff.data[out + 1] = DIFF_COLOR[1];
+        diff.data[out + 2] = DIFF_COLOR[2];
+      } else {
+        const source = inActual ? actual.data : baseline.data;
+        const i = inActual ? a : b;
+        const gray =
+          0.299 * (source[i] ?? 0) +
+          0.587 * (source[i + 1] ?? 0) +
+          0.114 * (source[i + 2] ?? 0);
+        const faded = 255 + (gray - 255) * DIFF_FADE;
+        diff.data[out] = faded;
+        diff.data[out + 1] = faded;
+        diff.data[out + 2] = faded;
+      }
+      diff.data[out + 3] = 255;
+    }
+  }
+
+  return { mismatched, compared, diff };
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+async function handleCompareScreenshot(
+  params: unknown,
+  ctx: RequestContext
+): Promise<CompareScreenshotResult> {
+  const p = params as CompareScreenshotParams;
+  const { threshold = DEFAULT_THRESHOLD, ignore = [], includeDiff = true } = p;
+
+  log.debug(
+    `compareScreenshot: tab=${ctx.tabId}, elementId=${p.elementId ?? "none"}, fullPage=${p.fullPage ?? false}, threshold=${threshold}, ignore=${ignore.length}`
+  );
+
+  const baseline = bitmapToCanvas(await decodeImage(toDataUrl(p.baseline)));
+  assertComparable(baseline.width, baseline.height);
+  const capture = await captureTarget(p, ctx);
+  assertComparable(
+    Math.max(capture.canvas.width, baseline.width),
+    Math.max(capture.canvas.height, baseline.height)
+  );
+
+  const scaledIgnore = ignore.map((r) => ({
+    x: Math.floor(r.x * capture.scale),
+    y: Math.floor(r.y * capture.scale),
+    width: Math.ceil(r.width * capture.scale),
+    height: Math.ceil(r.height * capture.scale),
+  }));
+
+  const { mismatched, compared, diff } = await diffPixels(
+    readPixels(capture.canvas),
+    readPixels(baseline),
+    threshold,
+    scaledIgnore,
+    ctx.signal
+  );
+
+  const result: CompareScreenshotResult = {
+    mismatchPercentage: compared > 0 ? (mismatched / compared) * 100 : 0,
+    mismatchedPixels: mismatched,
+    totalPixels: compared,
+    dimensionsMatch:
+      capture.canvas.width === baseline.width &&
+      capture.canvas.height === baseline.height,
+    width: diff.width,
+    height: diff.height,
+  };
+
+  if (includeDiff) {
+    const { canvas, context } = createCanvas(diff.width, diff.height);
+    context.putImageData(diff, 0, 0);
+    result.diff = await encodeCanvas(canvas, "png");
+  }
+
+  log.debug(
+    `compareScreenshot: ${mismatched}/${compared} pixels differ (${result.mismatchPercentage.toFixed(2)}%)`
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { handleCompareScreenshot };
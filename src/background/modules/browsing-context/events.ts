@@ -1,5 +1,10 @@
 /**
- * @fileoverview BrowsingContext navigation events.
+ * @fileoverview BrowsingContext navigation, tab and frame lifecycle events.
+ *
+ * Frames are tracked per tab from webNavigation. There is no event for a
+ * removed `<iframe>`, so subframes report `pagehide` and the tab's frames are
+ * then reconciled against `webNavigation.getAllFrames`.
+ *
  * @module modules/browsingContext/events
  */
 
@@ -7,9 +12,11 @@
 // Imports
 // ============================================================================
 
-import { session } from "../../../core/session.js";
+import { sessions } from "../../../core/session-manager.js";
 import { createLogger } from "../../../core/logger.js";
 
+import { toTabInfo } from "./tabs.js";
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -19,17 +26,31 @@ interface NavigationState {
   startTime: number;
 }
 
+/** Subframe ID to parent frame ID. */
+type FrameParents = Map<number, number>;
+
 // ============================================================================
 // Constants
 // ============================================================================
 
 const log = createLogger("BrowsingContext.Events");
 
+/** Tab properties reported by tabUpdated. */
+const UPDATED_PROPERTIES: browser.tabs.UpdatePropertyName[] = [
+  "url",
+  "title",
+  "status",
+];
+
+/** Delay before checking whether an unloaded frame was removed. */
+const DETACH_CHECK_DELAY_MS = 50;
+
 // ============================================================================
 // State
 // ============================================================================
 
 const navigationStates = new Map<number, NavigationState>();
+const trackedFrames = new Map<number, FrameParents>();
 
 // ============================================================================
 // Implementation
@@ -51,8 +72,9 @@ function handleBeforeNavigate(
 
   navigationStates.set(tabId, { url, startTime: Date.now() });
 
-  if (session.isConnected()) {
-    session.sendEvent("browsingContext.navigationStarted", {
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    owner.sendEvent("browsingContext.navigationStarted", {
       tabId,
       url,
       frameId: details.frameId,
@@ -75,8 +97,9 @@ function handleDOMContentLoaded(
 
   log.debug(`domContentLoaded: tab=${tabId}, url=${url}`);
 
-  if (session.isConnected()) {
-    session.sendEvent("browsingContext.domContentLoaded", {
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    owner.sendEvent("browsingContext.domContentLoaded", {
       tabId,
       url,
       frameId: details.frameId,
@@ -104,8 +127,9 @@ function handleCompleted(
 
   navigationStates.delete(tabId);
 
-  if (session.isConnected()) {
-    session.sendEvent("browsingContext.load", {
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    owner.sendEvent("browsingContext.load", {
       tabId,
       url,
       frameId: details.frameId,
@@ -118,9 +142,8 @@ function handleCompleted(
 function handleErrorOccurred(
   details: browser.webNavigation._OnErrorOccurredDetails
 ): void {
-  if (details.frameId !== 0) return;
-
   const tabId = details.tabId;
+  const frameId = details.frameId;
   const url = details.url;
   const error = details.error;
 
@@ -128,29 +151,314 @@ function handleErrorOccurred(
     return;
   }
 
-  log.debug(`navigationFailed: tab=${tabId}, url=${url}, error=${error}`);
+  log.debug(
+    `navigationFailed: tab=${tabId}, frame=${frameId}, url=${url}, error=${error}`
+  );
 
-  navigationStates.delete(tabId);
+  if (frameId === 0) navigationStates.delete(tabId);
 
-  if (session.isConnected()) {
-    session.sendEvent("browsingContext.navigationFailed", {
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    const params: Record<string, unknown> = {
       tabId,
       url,
-      frameId: details.frameId,
+      frameId,
       error,
       timestamp: Date.now(),
+    };
+    const parentFrameId = trackedFrames.get(tabId)?.get(frameId);
+    if (parentFrameId !== undefined) params.parentFrameId = parentFrameId;
+    owner.sendEvent("browsingContext.navigationFailed", params);
+  }
+}
+
+// ============================================================================
+// Implementation - Frame Lifecycle
+// ============================================================================
+
+function sendFrameEvent(
+  method: string,
+  tabId: number,
+  params: Record<string, unknown>
+): void {
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    owner.sendEvent(method, { tabId, ...params, timestamp: Date.now() });
+  }
+}
+
+/**
+ * Starts tracking a subframe and sends `frameAttached`.
+ *
+ * @returns False if the frame was already tracked
+ */
+function attachFrame(
+  tabId: number,
+  frameId: number,
+  parentFrameId: number,
+  url: string
+): boolean {
+  let frames = trackedFrames.get(tabId);
+  if (!frames) {
+    frames = new Map();
+    trackedFrames.set(tabId, frames);
+  }
+  if (frames.has(frameId)) return false;
+
+  frames.set(frameId, parentFrameId);
+
+  log.debug(
+    `frameAttached: tab=${tabId}, frame=${frameId}, parent=${parentFrameId}`
+  );
+
+  sendFrameEvent("browsingContext.frameAttached", tabId, {
+    frameId,
+    parentFrameId,
+    url,
+  });
+  return true;
+}
+
+function detachFrame(tabId: number, frameId: number): void {
+  const frames = trackedFrames.get(tabId);
+  const parentFrameId = frames?.get(frameId);
+  if (!frames || parentFrameId === undefined) return;
+
+  frames.delete(frameId);
+  if (frames.size === 0) trackedFrames.delete(tabId);
+
+  log.debug(
+    `frameDetached: tab=${tabId}, frame=${frameId}, parent=${parentFrameId}`
+  );
+
+  sendFrameEvent("browsingContext.frameDetached", tabId, {
+    frameId,
+    parentFrameId,
+  });
+}
+
+/**
+ * Resolves the parent of a subframe, tracking frames that were not seen
+ * navigating (e.g. loaded before the extension started).
+ *
+ * @returns Parent frame ID, or undefined if the frame no longer exists
+ */
+async function resolveFrame(
+  tabId: number,
+  frameId: number,
+  url: string
+): Promise<number | undefined> {
+  const known = trackedFrames.get(tabId)?.get(frameId);
+  if (known !== undefined) return known;
+
+  try {
+    const frame = await browser.webNavigation.getFrame({ tabId, frameId });
+    if (!frame) return undefined;
+    attachFrame(tabId, frameId, frame.parentFrameId, url);
+    return frame.parentFrameId;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detaches tracked frames of a tab that no longer exist.
+ */
+async function reconcileFrames(tabId: number): Promise<void> {
+  const frames = trackedFrames.get(tabId);
+  if (!frames) return;
+
+  let live: browser.webNavigation._GetAllFramesReturnDetails[] | null;
+  try {
+    live = await browser.webNavigation.getAllFrames({ tabId });
+  } catch {
+    live = null;
+  }
+
+  const liveIds = new Set((live ?? []).map((frame) => frame.frameId));
+  for (const frameId of Array.from(frames.keys())) {
+    if (!liveIds.has(frameId)) detachFrame(tabId, frameId);
+  }
+}
+
+function handleFrameBeforeNavigate(
+  details: browser.webNavigation._OnBeforeNavigateDetails
+): void {
+  if (details.frameId === 0) return;
+  attachFrame(
+    details.tabId,
+    details.frameId,
+    details.parentFrameId,
+    details.url
+  );
+}
+
+async function handleFrameCommitted(
+  details: browser.webNavigation._OnCommittedDetails
+): Promise<void> {
+  const { tabId, frameId, url } = details;
+
+  // A new top-level document replaces every subframe
+  if (frameId === 0) {
+    for (const childId of Array.from(trackedFrames.get(tabId)?.keys() ?? [])) {
+      detachFrame(tabId, childId);
+    }
+    return;
+  }
+
+  const parentFrameId = await resolveFrame(tabId, frameId, url);
+  if (parentFrameId === undefined) return;
+
+  log.debug(`frameNavigated: tab=${tabId}, frame=${frameId}, url=${url}`);
+
+  sendFrameEvent("browsingContext.frameNavigated", tabId, {
+    frameId,
+    parentFrameId,
+    url,
+    transitionType: details.transitionType,
+  });
+}
+
+async function handleFrameCompleted(
+  details: browser.webNavigation._OnCompletedDetails
+): Promise<void> {
+  const { tabId, frameId, url } = details;
+  if (frameId === 0) return;
+
+  const parentFrameId = await resolveFrame(tabId, frameId, url);
+  if (parentFrameId === undefined) return;
+
+  log.debug(`frameLoaded: tab=${tabId}, frame=${frameId}, url=${url}`);
+
+  sendFrameEvent("browsingContext.frameLoaded", tabId, {
+    frameId,
+    parentFrameId,
+    url,
+  });
+}
+
+/**
+ * Handles a subframe's `pagehide` notice.
+ *
+ * Navigating frames keep their ID, so only frames missing from the tab
+ * afterwards are detached.
+ *
+ * @param tabId - Tab of the frame
+ * @param frameId - Frame whose document unloaded
+ */
+function onFrameUnloaded(tabId: number, frameId: number): void {
+  if (!trackedFrames.get(tabId)?.has(frameId)) return;
+
+  setTimeout(() => {
+    void reconcileFrames(tabId);
+  }, DETACH_CHECK_DELAY_MS);
+}
+
+// ============================================================================
+// Implementation - Tab Lifecycle
+// ============================================================================
+
+function handleTabCreated(tab: browser.tabs.Tab): void {
+  if (tab.id === undefined) return;
+
+  log.debug(`tabCreated: tab=${tab.id}, opener=${tab.openerTabId ?? "none"}`);
+
+  // Assign first: ownership of popups follows their opener
+  const owner = sessions.assignTab(tab);
+  if (owner?.isConnected()) {
+    owner.sendEvent("browsingContext.tabCreated", {
+      ...toTabInfo({ ...tab, id: tab.id }),
+      timestamp: Date.now(),
+    });
+  }
+}
+
+function handleTabRemoved(
+  tabId: number,
+  removeInfo: browser.tabs._OnRemovedRemoveInfo
+): void {
+  log.debug(`tabRemoved: tab=${tabId}`);
+
+  navigationStates.delete(tabId);
+  trackedFrames.delete(tabId);
+
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    owner.sendEvent("browsingContext.tabRemoved", {
+      tabId,
+      windowId: removeInfo.windowId,
+      isWindowClosing: removeInfo.isWindowClosing,
+      timestamp: Date.now(),
     });
   }
 }
 
+function handleTabActivated(
+  activeInfo: browser.tabs._OnActivatedActiveInfo
+): void {
+  const { tabId, windowId, previousTabId } = activeInfo;
+
+  log.debug(`tabActivated: tab=${tabId}, window=${windowId}`);
+
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    const params: Record<string, unknown> = {
+      tabId,
+      windowId,
+      timestamp: Date.now(),
+    };
+    if (previousTabId !== undefined) params.previousTabId = previousTabId;
+    owner.sendEvent("browsingContext.tabActivated", params);
+  }
+}
+
+function handleTabUpdated(
+  tabId: number,
+  changeInfo: browser.tabs._OnUpdatedChangeInfo,
+  tab: browser.tabs.Tab
+): void {
+  const changes: Record<string, unknown> = {};
+  if (changeInfo.url !== undefined) changes.url = changeInfo.url;
+  if (changeInfo.title !== undefined) changes.title = changeInfo.title;
+  if (changeInfo.status !== undefined) changes.status = changeInfo.status;
+  if (Object.keys(changes).length === 0) return;
+
+  log.debug(`tabUpdated: tab=${tabId}, changes=${JSON.stringify(changes)}`);
+
+  const owner = sessions.forTab(tabId);
+  if (owner?.isConnected()) {
+    owner.sendEvent("browsingContext.tabUpdated", {
+      tabId,
+      windowId: tab.windowId,
+      ...changes,
+      timestamp: Date.now(),
+    });
+  }
+}
+
+// ============================================================================
+// Implementation - Initialization
+// ============================================================================
+
 function initBrowsingContextEvents(): void {
   browser.webNavigation.onBeforeNavigate.addListener(handleBeforeNavigate);
   browser.webNavigation.onDOMContentLoaded.addListener(handleDOMContentLoaded);
   browser.webNavigation.onCompleted.addListener(handleCompleted);
   browser.webNavigation.onErrorOccurred.addListener(handleErrorOccurred);
 
-  browser.tabs.onRemoved.addListener((tabId) => {
-    navigationStates.delete(tabId);
+  browser.webNavigation.onBeforeNavigate.addListener(handleFrameBeforeNavigate);
+  browser.webNavigation.onCommitted.addListener((details) => {
+    void handleFrameCommitted(details);
+  });
+  browser.webNavigation.onCompleted.addListener((details) => {
+    void handleFrameCompleted(details);
+  });
+
+  browser.tabs.onCreated.addListener(handleTabCreated);
+  browser.tabs.onRemoved.addListener(handleTabRemoved);
+  browser.tabs.onActivated.addListener(handleTabActivated);
+  browser.tabs.onUpdated.addListener(handleTabUpdated, {
+    properties: UPDATED_PROPERTIES,
   });
 
   log.info("browsingContext events initialized");
@@ -160,4 +468,4 @@ function initBrowsingContextEvents(): void {
 // Exports
 // ============================================================================
 
-export { initBrowsingContextEvents };
+export { initBrowsingContextEvents, onFrameUnloaded };
@@ -8,8 +8,10 @@
 // ============================================================================
 
 import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
 
 // ============================================================================
 // Constants
@@ -26,12 +28,8 @@ async function handleFocusTab(
   ctx: RequestContext
 ): Promise<void> {
   log.debug(`focusTab: tab=${ctx.tabId}`);
-  const start = Date.now();
 
   await browser.tabs.update(ctx.tabId, { active: true });
-
-  const elapsed = Date.now() - start;
-  log.debug(`focusTab: completed in ${elapsed}ms`);
 }
 
 async function handleFocusWindow(
@@ -39,17 +37,17 @@ async function handleFocusWindow(
   ctx: RequestContext
 ): Promise<void> {
   log.debug(`focusWindow: tab=${ctx.tabId}`);
-  const start = Date.now();
 
   const tab = await browser.tabs.get(ctx.tabId);
   if (tab.windowId === undefined) {
-    throw new Error("Tab has no window ID");
+    throw new WebDriverError(ErrorCode.NoSuchTab, "Tab has no window ID", {
+      tabId: ctx.tabId,
+    });
   }
 
   await browser.windows.update(tab.windowId, { focused: true });
 
-  const elapsed = Date.now() - start;
-  log.debug(`focusWindow: completed in ${elapsed}ms, windowId=${tab.windowId}`);
+  log.debug(`focusWindow: windowId=${tab.windowId}`);
 }
 
 // ============================================================================
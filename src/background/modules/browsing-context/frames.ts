@@ -7,9 +7,11 @@
 // Imports
 // ============================================================================
 
-import type { RequestContext } from "../../../types/index.js";
+import type { FrameElementInfo, RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
 import { patternToRegex } from "../../../core/utils.js";
 
 // ============================================================================
@@ -34,6 +36,23 @@ interface SwitchToFrameByUrlParams {
   urlPattern: string;
 }
 
+interface SwitchToFrameByNameParams {
+  /** `name` or `id` attribute of the frame element. */
+  name: string;
+}
+
+interface SwitchToFrameBySelectorParams {
+  selector: string;
+}
+
+interface FrameIdResponse {
+  success: boolean;
+  frameId?: number;
+  error?: string;
+  code?: string;
+  data?: Record<string, unknown>;
+}
+
 interface FrameResult {
   frameId: number;
 }
@@ -46,6 +65,27 @@ interface AllFramesResult {
   frames: FrameInfo[];
 }
 
+interface GetFrameTreeParams {
+  /** Frame to start from (default: main frame). */
+  root?: number;
+}
+
+/** Frame with its owning element and children. */
+interface FrameTreeNode extends FrameInfo {
+  /** Serialized origin ("null" for opaque origins). */
+  origin: string;
+  /** `<iframe>`/`<frame>` element in the parent (absent for the main frame). */
+  element?: Omit<FrameElementInfo, "frameId">;
+  /** True if the content script answers in this frame. */
+  contentScript: boolean;
+  children: FrameTreeNode[];
+}
+
+interface ListChildrenResponse {
+  success: boolean;
+  frames?: FrameElementInfo[];
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -72,60 +112,104 @@ async function getChildFrames(
     }));
 }
 
+/**
+ * Resolves a frame element in the current frame to a child frame ID.
+ *
+ * @param ctx - Request context (the frame to search)
+ * @param message - Content script lookup message
+ * @returns Child frame ID
+ * @throws WebDriverError (`no such frame`) if the element is not a child frame
+ */
+async function resolveChildFrame(
+  ctx: RequestContext,
+  message: Record<string, unknown>
+): Promise<number> {
+  const response = (await browser.tabs.sendMessage(ctx.tabId, message, {
+    frameId: ctx.frameId,
+  })) as FrameIdResponse | undefined;
+
+  if (!response || !response.success || response.frameId === undefined) {
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Failed to resolve frame",
+      ErrorCode.NoSuchFrame
+    );
+  }
+
+  const frameId = response.frameId;
+  const frame = await browser.webNavigation.getFrame({
+    tabId: ctx.tabId,
+    frameId,
+  });
+  if (!frame || frame.parentFrameId !== ctx.frameId) {
+    throw new WebDriverError(
+      ErrorCode.NoSuchFrame,
+      `Frame ${frameId} is not a child of frame ${ctx.frameId}`,
+      { frameId, parentFrameId: ctx.frameId }
+    );
+  }
+
+  return frameId;
+}
+
 async function handleSwitchToFrame(
   params: unknown,
   ctx: RequestContext
 ): Promise<FrameResult> {
   const { elementId } = params as SwitchToFrameParams;
 
-  if (!elementId) {
-    throw new Error("elementId is required");
-  }
-
   log.debug(
     `switchToFrame: elementId=${elementId}, tab=${ctx.tabId}, frame=${ctx.frameId}`
   );
-  const start = Date.now();
 
-  const childFrames = await getChildFrames(ctx.tabId, ctx.frameId);
-  log.debug(`switchToFrame: found ${childFrames.length} child frames`);
+  const frameId = await resolveChildFrame(ctx, {
+    type: "FRAME_GET_ID",
+    elementId,
+  });
 
-  if (childFrames.length === 0) {
-    throw new Error("No child frames found in current context");
-  }
+  log.debug(`switchToFrame: frameId=${frameId}`);
 
-  const response = (await browser.tabs.sendMessage(ctx.tabId, {
-    type: "FRAME_GET_INDEX",
-    elementId,
-    frameId: ctx.frameId,
-  })) as { success: boolean; frameIndex?: number; error?: string };
+  return { frameId };
+}
 
-  if (!response || !response.success) {
-    throw new Error(
-      response?.error ?? "Failed to get frame index from element"
-    );
-  }
+async function handleSwitchToFrameByName(
+  params: unknown,
+  ctx: RequestContext
+): Promise<FrameResult> {
+  const { name } = params as SwitchToFrameByNameParams;
 
-  const frameIndex = response.frameIndex as number;
-  log.debug(`switchToFrame: element maps to frame index ${frameIndex}`);
+  log.debug(
+    `switchToFrameByName: name=${name}, tab=${ctx.tabId}, frame=${ctx.frameId}`
+  );
 
-  if (frameIndex < 0 || frameIndex >= childFrames.length) {
-    throw new Error(
-      `Frame index ${frameIndex} out of bounds (${childFrames.length} frames)`
-    );
-  }
+  const frameId = await resolveChildFrame(ctx, {
+    type: "FRAME_FIND_BY_NAME",
+    name,
+  });
 
-  const targetFrame = childFrames[frameIndex];
-  if (!targetFrame) {
-    throw new Error(`No frame at index ${frameIndex}`);
-  }
+  log.debug(`switchToFrameByName: frameId=${frameId}`);
+
+  return { frameId };
+}
+
+async function handleSwitchToFrameBySelector(
+  params: unknown,
+  ctx: RequestContext
+): Promise<FrameResult> {
+  const { selector } = params as SwitchToFrameBySelectorParams;
 
-  const elapsed = Date.now() - start;
   log.debug(
-    `switchToFrame: completed in ${elapsed}ms, frameId=${targetFrame.frameId}, url=${targetFrame.url}`
+    `switchToFrameBySelector: selector=${selector}, tab=${ctx.tabId}, frame=${ctx.frameId}`
   );
 
-  return { frameId: targetFrame.frameId };
+  const frameId = await resolveChildFrame(ctx, {
+    type: "FRAME_FIND_BY_SELECTOR",
+    selector,
+  });
+
+  log.debug(`switchToFrameBySelector: frameId=${frameId}`);
+
+  return { frameId };
 }
 
 async function handleSwitchToFrameByIndex(
@@ -134,31 +218,31 @@ async function handleSwitchToFrameByIndex(
 ): Promise<FrameResult> {
   const { index } = params as SwitchToFrameByIndexParams;
 
-  if (index === undefined || index < 0) {
-    throw new Error("Valid index is required");
-  }
-
   log.debug(
     `switchToFrameByIndex: index=${index}, tab=${ctx.tabId}, frame=${ctx.frameId}`
   );
-  const start = Date.now();
 
   const childFrames = await getChildFrames(ctx.tabId, ctx.frameId);
 
   if (index >= childFrames.length) {
-    throw new Error(
-      `Frame index ${index} out of bounds (${childFrames.length} frames)`
+    throw new WebDriverError(
+      ErrorCode.NoSuchFrame,
+      `Frame index ${index} out of bounds (${childFrames.length} frames)`,
+      { index, frameCount: childFrames.length }
     );
   }
 
   const targetFrame = childFrames[index];
   if (!targetFrame) {
-    throw new Error(`No frame at index ${index}`);
+    throw new WebDriverError(
+      ErrorCode.NoSuchFrame,
+      `No frame at index ${index}`,
+      { index }
+    );
   }
 
-  const elapsed = Date.now() - start;
   log.debug(
-    `switchToFrameByIndex: completed in ${elapsed}ms, frameId=${targetFrame.frameId}, url=${targetFrame.url}`
+    `switchToFrameByIndex: frameId=${targetFrame.frameId}, url=${targetFrame.url}`
   );
 
   return { frameId: targetFrame.frameId };
@@ -170,26 +254,24 @@ async function handleSwitchToFrameByUrl(
 ): Promise<FrameResult> {
   const { urlPattern } = params as SwitchToFrameByUrlParams;
 
-  if (!urlPattern) {
-    throw new Error("urlPattern is required");
-  }
-
   log.debug(
     `switchToFrameByUrl: pattern=${urlPattern}, tab=${ctx.tabId}, frame=${ctx.frameId}`
   );
-  const start = Date.now();
 
   const childFrames = await getChildFrames(ctx.tabId, ctx.frameId);
   const regex = patternToRegex(urlPattern);
 
   const targetFrame = childFrames.find((f) => regex.test(f.url));
   if (!targetFrame) {
-    throw new Error(`No frame matching URL pattern: ${urlPattern}`);
+    throw new WebDriverError(
+      ErrorCode.NoSuchFrame,
+      `No frame matching URL pattern: ${urlPattern}`,
+      { urlPattern }
+    );
   }
 
-  const elapsed = Date.now() - start;
   log.debug(
-    `switchToFrameByUrl: completed in ${elapsed}ms, frameId=${targetFrame.frameId}, url=${targetFrame.url}`
+    `switchToFrameByUrl: frameId=${targetFrame.frameId}, url=${targetFrame.url}`
   );
 
   return { frameId: targetFrame.frameId };
@@ -200,7 +282,6 @@ async function handleSwitchToParentFrame(
   ctx: RequestContext
 ): Promise<FrameResult> {
   log.debug(`switchToParentFrame: tab=${ctx.tabId}, frame=${ctx.frameId}`);
-  const start = Date.now();
 
   if (ctx.frameId === 0) {
     log.debug(`switchToParentFrame: already in main frame`);
@@ -211,13 +292,14 @@ async function handleSwitchToParentFrame(
   const currentFrame = frames?.find((f) => f.frameId === ctx.frameId);
 
   if (!currentFrame) {
-    throw new Error(`Current frame not found: ${ctx.frameId}`);
+    throw new WebDriverError(
+      ErrorCode.NoSuchFrame,
+      `Current frame not found: ${ctx.frameId}`,
+      { frameId: ctx.frameId }
+    );
   }
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `switchToParentFrame: completed in ${elapsed}ms, parentFrameId=${currentFrame.parentFrameId}`
-  );
+  log.debug(`switchToParentFrame: parentFrameId=${currentFrame.parentFrameId}`);
 
   return { frameId: currentFrame.parentFrameId };
 }
@@ -227,14 +309,10 @@ async function handleGetFrameCount(
   ctx: RequestContext
 ): Promise<FrameCountResult> {
   log.debug(`getFrameCount: tab=${ctx.tabId}, frame=${ctx.frameId}`);
-  const start = Date.now();
 
   const childFrames = await getChildFrames(ctx.tabId, ctx.frameId);
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `getFrameCount: completed in ${elapsed}ms, count=${childFrames.length}`
-  );
+  log.debug(`getFrameCount: count=${childFrames.length}`);
 
   return { count: childFrames.length };
 }
@@ -244,7 +322,6 @@ async function handleGetAllFrames(
   ctx: RequestContext
 ): Promise<AllFramesResult> {
   log.debug(`getAllFrames: tab=${ctx.tabId}`);
-  const start = Date.now();
 
   const frames = await browser.webNavigation.getAllFrames({ tabId: ctx.tabId });
 
@@ -254,14 +331,114 @@ async function handleGetAllFrames(
     url: f.url,
   }));
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `getAllFrames: completed in ${elapsed}ms, count=${frameInfos.length}`
-  );
+  log.debug(`getAllFrames: count=${frameInfos.length}`);
 
   return { frames: frameInfos };
 }
 
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "null";
+  }
+}
+
+async function isContentScriptAlive(
+  tabId: number,
+  frameId: number
+): Promise<boolean> {
+  try {
+    await browser.tabs.sendMessage(
+      tabId,
+      { type: "GET_CONTENT_STATE" },
+      { frameId }
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function listFrameElements(
+  tabId: number,
+  frameId: number
+): Promise<FrameElementInfo[]> {
+  try {
+    const response = (await browser.tabs.sendMessage(
+      tabId,
+      { type: "FRAME_LIST_CHILDREN" },
+      { frameId }
+    )) as ListChildrenResponse | undefined;
+    return response?.frames ?? [];
+  } catch {
+    return [];
+  }
+}
+
+async function handleGetFrameTree(
+  params: unknown,
+  ctx: RequestContext
+): Promise<FrameTreeNode> {
+  const { root = 0 } = (params as GetFrameTreeParams) || {};
+
+  log.debug(`getFrameTree: tab=${ctx.tabId}, root=${root}`);
+
+  const frames =
+    (await browser.webNavigation.getAllFrames({ tabId: ctx.tabId })) ?? [];
+
+  const nodes = new Map<number, FrameTreeNode>();
+  await Promise.all(
+    frames.map(async (f) => {
+      nodes.set(f.frameId, {
+        frameId: f.frameId,
+        parentFrameId: f.parentFrameId,
+        url: f.url,
+        origin: getOrigin(f.url),
+        contentScript: await isContentScriptAlive(ctx.tabId, f.frameId),
+        children: [],
+      });
+    })
+  );
+
+  // Owning elements are only visible from the parent document, which can
+  // describe them even when the child is cross-origin
+  const parents = new Set(frames.map((f) => f.parentFrameId));
+  await Promise.all(
+    Array.from(parents, async (parentId) => {
+      if (!nodes.get(parentId)?.contentScript) return;
+
+      for (const { frameId, ...element } of await listFrameElements(
+        ctx.tabId,
+        parentId
+      )) {
+        const node = nodes.get(frameId);
+        if (node && node.parentFrameId === parentId) node.element = element;
+      }
+    })
+  );
+
+  // Keep document order from getAllFrames
+  for (const f of frames) {
+    const node = nodes.get(f.frameId);
+    const parent = nodes.get(f.parentFrameId);
+    if (node && parent) parent.children.push(node);
+  }
+
+  const rootNode = nodes.get(root);
+  if (!rootNode) {
+    throw new WebDriverError(
+      ErrorCode.NoSuchFrame,
+      `Frame not found: ${root}`,
+      { frameId: root }
+    );
+  }
+
+  log.debug(`getFrameTree: ${nodes.size} frames`);
+
+  return rootNode;
+}
+
 // ============================================================================
 // Exports
 // ============================================================================
@@ -270,7 +447,10 @@ export {
   handleSwitchToFrame,
   handleSwitchToFrameByIndex,
   handleSwitchToFrameByUrl,
+  handleSwitchToFrameByName,
+  handleSwitchToFrameBySelector,
   handleSwitchToParentFrame,
   handleGetFrameCount,
   handleGetAllFrames,
+  handleGetFrameTree,
 };
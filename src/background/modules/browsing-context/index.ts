@@ -9,6 +9,8 @@
 
 import { registry } from "../../../core/registry.js";
 import { createLogger } from "../../../core/logger.js";
+import type { ParamSchema } from "../../../types/index.js";
+import { SELECTOR_STRATEGIES } from "../../../types/index.js";
 
 import {
   handleNavigate,
@@ -17,18 +19,37 @@ import {
   handleGoForward,
 } from "./navigation.js";
 import { handleGetTitle, handleGetUrl } from "./properties.js";
-import { handleNewTab, handleCloseTab } from "./tabs.js";
+import {
+  handleNewTab,
+  handleCloseTab,
+  handleListTabs,
+  handleGetTree,
+} from "./tabs.js";
 import { handleFocusTab, handleFocusWindow } from "./focus.js";
+import {
+  handleNewWindow,
+  handleCloseWindow,
+  handleGetWindowRect,
+  handleSetWindowRect,
+  handleMinimize,
+  handleMaximize,
+  handleFullscreen,
+  handleListWindows,
+} from "./windows.js";
 import {
   handleSwitchToFrame,
   handleSwitchToFrameByIndex,
   handleSwitchToFrameByUrl,
+  handleSwitchToFrameByName,
+  handleSwitchToFrameBySelector,
   handleSwitchToParentFrame,
   handleGetFrameCount,
   handleGetAllFrames,
+  handleGetFrameTree,
 } from "./frames.js";
 import { initBrowsingContextEvents } from "./events.js";
 import { handleCaptureScreenshot } from "./screenshot.js";
+import { handleCompareScreenshot } from "./compare.js";
 
 // ============================================================================
 // Constants
@@ -36,32 +57,111 @@ import { handleCaptureScreenshot } from "./screenshot.js";
 
 const log = createLogger("BrowsingContext");
 
+const WAIT_SCHEMA: ParamSchema = {
+  wait: {
+    type: "string",
+    enum: ["none", "commit", "domContentLoaded", "load", "networkIdle"],
+  },
+  timeout: { type: "integer", minimum: 0 },
+  idleTime: { type: "integer", minimum: 0 },
+  selector: {
+    type: "object",
+    properties: {
+      strategy: { type: "string", required: true, enum: SELECTOR_STRATEGIES },
+      value: { type: "string", required: true },
+    },
+  },
+};
+
+const WINDOW_SCHEMA: ParamSchema = {
+  windowId: { type: "integer" },
+};
+
 // ============================================================================
 // Registration
 // ============================================================================
 
-registry.register("browsingContext.navigate", handleNavigate);
-registry.register("browsingContext.reload", handleReload);
-registry.register("browsingContext.goBack", handleGoBack);
-registry.register("browsingContext.goForward", handleGoForward);
+registry.register("browsingContext.navigate", handleNavigate, {
+  url: { type: "string", required: true },
+  ...WAIT_SCHEMA,
+});
+registry.register("browsingContext.reload", handleReload, WAIT_SCHEMA);
+registry.register("browsingContext.goBack", handleGoBack, WAIT_SCHEMA);
+registry.register("browsingContext.goForward", handleGoForward, WAIT_SCHEMA);
 
 registry.register("browsingContext.getTitle", handleGetTitle);
 registry.register("browsingContext.getUrl", handleGetUrl);
 
-registry.register("browsingContext.newTab", handleNewTab);
+registry.register("browsingContext.newTab", handleNewTab, {
+  url: { type: "string" },
+});
 registry.register("browsingContext.closeTab", handleCloseTab);
+registry.register("browsingContext.listTabs", handleListTabs, {
+  windowId: { type: "integer" },
+});
+registry.register("browsingContext.getTree", handleGetTree);
 
 registry.register("browsingContext.focusTab", handleFocusTab);
 registry.register("browsingContext.focusWindow", handleFocusWindow);
 
-registry.register("browsingContext.switchToFrame", handleSwitchToFrame);
+registry.register("browsingContext.newWindow", handleNewWindow, {
+  url: { type: "string" },
+  type: { type: "string", enum: ["normal", "popup"] },
+  private: { type: "boolean" },
+  focused: { type: "boolean" },
+  x: { type: "integer" },
+  y: { type: "integer" },
+  width: { type: "integer", minimum: 1 },
+  height: { type: "integer", minimum: 1 },
+});
+registry.register(
+  "browsingContext.closeWindow",
+  handleCloseWindow,
+  WINDOW_SCHEMA
+);
+registry.register(
+  "browsingContext.getWindowRect",
+  handleGetWindowRect,
+  WINDOW_SCHEMA
+);
+registry.register("browsingContext.setWindowRect", handleSetWindowRect, {
+  ...WINDOW_SCHEMA,
+  x: { type: "integer" },
+  y: { type: "integer" },
+  width: { type: "integer", minimum: 1 },
+  height: { type: "integer", minimum: 1 },
+});
+registry.register("browsingContext.minimize", handleMinimize, WINDOW_SCHEMA);
+registry.register("browsingContext.maximize", handleMaximize, WINDOW_SCHEMA);
+registry.register(
+  "browsingContext.fullscreen",
+  handleFullscreen,
+  WINDOW_SCHEMA
+);
+registry.register("browsingContext.listWindows", handleListWindows);
+
+registry.register("browsingContext.switchToFrame", handleSwitchToFrame, {
+  elementId: { type: "string", required: true },
+});
 registry.register(
   "browsingContext.switchToFrameByIndex",
-  handleSwitchToFrameByIndex
+  handleSwitchToFrameByIndex,
+  { index: { type: "integer", required: true, minimum: 0 } }
 );
 registry.register(
   "browsingContext.switchToFrameByUrl",
-  handleSwitchToFrameByUrl
+  handleSwitchToFrameByUrl,
+  { urlPattern: { type: "string", required: true } }
+);
+registry.register(
+  "browsingContext.switchToFrameByName",
+  handleSwitchToFrameByName,
+  { name: { type: "string", required: true } }
+);
+registry.register(
+  "browsingContext.switchToFrameBySelector",
+  handleSwitchToFrameBySelector,
+  { selector: { type: "string", required: true } }
 );
 registry.register(
   "browsingContext.switchToParentFrame",
@@ -69,12 +169,81 @@ registry.register(
 );
 registry.register("browsingContext.getFrameCount", handleGetFrameCount);
 registry.register("browsingContext.getAllFrames", handleGetAllFrames);
+registry.register("browsingContext.getFrameTree", handleGetFrameTree, {
+  root: { type: "integer", minimum: 0 },
+});
+
+registry.register(
+  "browsingContext.captureScreenshot",
+  handleCaptureScreenshot,
+  {
+    format: { type: "string", enum: ["png", "jpeg"] },
+    quality: { type: "integer", minimum: 0, maximum: 100 },
+    fullPage: { type: "boolean" },
+    clip: {
+      type: "object",
+      properties: {
+        x: { type: "number", required: true, minimum: 0 },
+        y: { type: "number", required: true, minimum: 0 },
+        width: { type: "number", required: true, minimum: 1 },
+        height: { type: "number", required: true, minimum: 1 },
+      },
+    },
+  }
+);
+
+registry.register(
+  "browsingContext.compareScreenshot",
+  handleCompareScreenshot,
+  {
+    baseline: { type: "string", required: true },
+    elementId: { type: "string" },
+    padding: { type: "number", minimum: 0 },
+    mask: { type: "array", items: { type: "string" } },
+    maskColor: { type: "string" },
+    fullPage: { type: "boolean" },
+    clip: {
+      type: "object",
+      properties: {
+        x: { type: "number", required: true, minimum: 0 },
+        y: { type: "number", required: true, minimum: 0 },
+        width: { type: "number", required: true, minimum: 1 },
+        height: { type: "number", required: true, minimum: 1 },
+      },
+    },
+    threshold: { type: "number", minimum: 0, maximum: 1 },
+    ignore: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          x: { type: "number", required: true },
+          y: { type: "number", required: true },
+          width: { type: "number", required: true, minimum: 0 },
+          height: { type: "number", required: true, minimum: 0 },
+        },
+      },
+    },
+    includeDiff: { type: "boolean" },
+  }
+);
 
-registry.register("browsingContext.captureScreenshot", handleCaptureScreenshot);
+registry.registerEvent("browsingContext.navigationStarted");
+registry.registerEvent("browsingContext.domContentLoaded");
+registry.registerEvent("browsingContext.load");
+registry.registerEvent("browsingContext.navigationFailed");
+registry.registerEvent("browsingContext.tabCreated");
+registry.registerEvent("browsingContext.tabRemoved");
+registry.registerEvent("browsingContext.tabActivated");
+registry.registerEvent("browsingContext.tabUpdated");
+registry.registerEvent("browsingContext.frameAttached");
+registry.registerEvent("browsingContext.frameNavigated");
+registry.registerEvent("browsingContext.frameLoaded");
+registry.registerEvent("browsingContext.frameDetached");
 
 initBrowsingContextEvents();
 
-log.info("browsingContext module registered (17 handlers + events)");
+log.info("browsingContext module registered (31 handlers + events)");
 
 // ============================================================================
 // Exports
@@ -89,13 +258,27 @@ export {
   handleGetUrl,
   handleNewTab,
   handleCloseTab,
+  handleListTabs,
+  handleGetTree,
   handleFocusTab,
   handleFocusWindow,
+  handleNewWindow,
+  handleCloseWindow,
+  handleGetWindowRect,
+  handleSetWindowRect,
+  handleMinimize,
+  handleMaximize,
+  handleFullscreen,
+  handleListWindows,
   handleSwitchToFrame,
   handleSwitchToFrameByIndex,
   handleSwitchToFrameByUrl,
+  handleSwitchToFrameByName,
+  handleSwitchToFrameBySelector,
   handleSwitchToParentFrame,
   handleGetFrameCount,
   handleGetAllFrames,
+  handleGetFrameTree,
   handleCaptureScreenshot,
+  handleCompareScreenshot,
 };
@@ -11,16 +11,14 @@ import type { RequestContext } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
 
+import type { WaitParams, WaitResult } from "./wait.js";
+import { navigateAndWait } from "./wait.js";
+
 // ============================================================================
 // Types
 // ============================================================================
 
-interface NavigateParams {
-  url: string;
-  wait?: "none" | "domContentLoaded" | "load";
-}
-
-interface NavigateResult {
+interface NavigateParams extends WaitParams {
   url: string;
 }
 
@@ -28,170 +26,125 @@ interface NavigateResult {
 // Constants
 // ============================================================================
 
-const NAVIGATION_TIMEOUT_MS = 30_000;
-
 const log = createLogger("BrowsingContext.Navigation");
 
+/** Time for goBack/goForward to start a navigation before returning. */
+const TRAVERSE_START_GRACE_MS = 500;
+
 // ============================================================================
 // Implementation
 // ============================================================================
 
-function waitForNavigation(
-  tabId: number,
-  targetUrl: string,
-  timeoutMs: number
-): Promise<string> {
-  log.debug("Setting up navigation listener", {
-    tabId,
-    targetUrl: targetUrl.substring(0, 50),
-    timeoutMs,
-  });
-
-  const isDataUri = targetUrl.startsWith("data:");
-  const targetUrlPrefix = targetUrl.substring(0, 100);
-
-  return new Promise((resolve, reject) => {
-    let resolved = false;
-    let sawLoading = false;
-
-    const cleanup = (): void => {
-      if (!resolved) {
-        resolved = true;
-        clearTimeout(timeoutId);
-        browser.tabs.onUpdated.removeListener(listener);
-      }
-    };
-
-    const timeoutId = setTimeout(() => {
-      log.warn("Navigation timeout", {
-        tabId,
-        targetUrl: targetUrl.substring(0, 50),
-      });
-      cleanup();
-      reject(new Error(`Navigation timeout after ${timeoutMs}ms`));
-    }, timeoutMs);
-
-    const listener = (
-      updatedTabId: number,
-      changeInfo: browser.tabs._OnUpdatedChangeInfo,
-      tab: browser.tabs.Tab
-    ): void => {
-      if (updatedTabId !== tabId || resolved) return;
-
-      log.debug("Tab update event", {
-        tabId: updatedTabId,
-        status: changeInfo.status,
-        url: changeInfo.url?.substring(0, 50),
-        tabUrl: tab.url?.substring(0, 50),
-        sawLoading,
-      });
-
-      if (changeInfo.status === "loading") {
-        sawLoading = true;
-      }
-
-      if (isDataUri) {
-        if (
-          changeInfo.status === "complete" &&
-          tab.url?.startsWith(targetUrlPrefix)
-        ) {
-          log.debug("Data URI navigation completed", { tabId });
-          cleanup();
-          resolve(tab.url);
-        }
-      } else {
-        if (
-          changeInfo.status === "complete" &&
-          tab.url &&
-          !tab.url.startsWith("data:") &&
-          sawLoading
-        ) {
-          log.debug("Navigation completed", { tabId, url: tab.url });
-          cleanup();
-          resolve(tab.url);
-        }
-      }
-    };
-
-    browser.tabs.onUpdated.addListener(listener);
-    log.debug("Navigation listener registered", { tabId });
-  });
-}
-
 async function handleNavigate(
   params: unknown,
   ctx: RequestContext
-): Promise<NavigateResult> {
-  const { url, wait = "load" } = params as NavigateParams;
+): Promise<WaitResult> {
+  const { url, ...waitParams } = params as NavigateParams;
 
-  if (!url) {
-    throw new Error("URL is required");
-  }
-
-  log.debug(`navigate: url=${url}, tab=${ctx.tabId}, wait=${wait}`);
-  const start = Date.now();
-
-  if (wait === "none") {
-    await browser.tabs.update(ctx.tabId as number, { url });
-    log.info(
-      `navigate: started (no wait) in ${Date.now() - start}ms, url=${url}`
-    );
-    return { url };
-  }
-
-  const navigationPromise = waitForNavigation(
-    ctx.tabId as number,
-    url,
-    NAVIGATION_TIMEOUT_MS
+  log.debug(
+    `navigate: url=${url}, tab=${ctx.tabId}, wait=${waitParams.wait ?? "load"}`
   );
 
-  await browser.tabs.update(ctx.tabId as number, { url });
-
-  const finalUrl = await navigationPromise;
+  const result = await navigateAndWait(
+    ctx.tabId,
+    () => browser.tabs.update(ctx.tabId, { url }),
+    waitParams,
+    ctx.signal,
+    { targetUrl: url }
+  );
 
-  const elapsed = Date.now() - start;
-  log.info(`navigate: completed in ${elapsed}ms, url=${finalUrl}`);
+  log.info(`navigate: completed, url=${result.url}`);
 
-  return { url: finalUrl };
+  return result;
 }
 
 async function handleReload(
-  _params: unknown,
+  params: unknown,
   ctx: RequestContext
-): Promise<void> {
+): Promise<WaitResult> {
   log.debug(`reload: tab=${ctx.tabId}`);
-  const start = Date.now();
 
-  await browser.tabs.reload(ctx.tabId);
+  return navigateAndWait(
+    ctx.tabId,
+    () => browser.tabs.reload(ctx.tabId),
+    (params as WaitParams) || {},
+    ctx.signal
+  );
+}
 
-  const elapsed = Date.now() - start;
-  log.debug(`reload: completed in ${elapsed}ms`);
+/**
+ * Checks whether the tab has a history entry in a direction.
+ *
+ * @returns False only if the page's Navigation API says there is none
+ */
+async function canTraverse(
+  tabId: number,
+  direction: "back" | "forward"
+): Promise<boolean> {
+  try {
+    const results = await browser.scripting.executeScript({
+      target: { tabId, frameIds: [0] },
+      func: ((dir: string) => {
+        const nav = (
+          window as unknown as {
+            navigation?: { canGoBack?: boolean; canGoForward?: boolean };
+          }
+        ).navigation;
+        const can = dir === "back" ? nav?.canGoBack : nav?.canGoForward;
+        return typeof can === "boolean" ? can : null;
+      }) as (dir: string) => void,
+      args: [direction],
+    });
+    return results[0]?.result !== false;
+  } catch {
+    // Privileged pages cannot be scripted; rely on the start grace period
+    return true;
+  }
+}
+
+/**
+ * Traverses history and waits, returning at once if there is nothing to
+ * traverse to.
+ */
+async function traverse(
+  direction: "back" | "forward",
+  params: WaitParams,
+  ctx: RequestContext
+): Promise<WaitResult> {
+  if (!(await canTraverse(ctx.tabId, direction))) {
+    log.debug(`${direction}: no history entry, tab=${ctx.tabId}`);
+    const tab = await browser.tabs.get(ctx.tabId);
+    return { url: tab.url ?? "" };
+  }
+
+  return navigateAndWait(
+    ctx.tabId,
+    () =>
+      direction === "back"
+        ? browser.tabs.goBack(ctx.tabId)
+        : browser.tabs.goForward(ctx.tabId),
+    params,
+    ctx.signal,
+    { startGraceMs: TRAVERSE_START_GRACE_MS }
+  );
 }
 
 async function handleGoBack(
-  _params: unknown,
+  params: unknown,
   ctx: RequestContext
-): Promise<void> {
+): Promise<WaitResult> {
   log.debug(`goBack: tab=${ctx.tabId}`);
-  const start = Date.now();
-
-  await browser.tabs.goBack(ctx.tabId);
 
-  const elapsed = Date.now() - start;
-  log.debug(`goBack: completed in ${elapsed}ms`);
+  return traverse("back", (params as WaitParams) || {}, ctx);
 }
 
 async function handleGoForward(
-  _params: unknown,
+  params: unknown,
   ctx: RequestContext
-): Promise<void> {
+): Promise<WaitResult> {
   log.debug(`goForward: tab=${ctx.tabId}`);
-  const start = Date.now();
-
-  await browser.tabs.goForward(ctx.tabId);
 
-  const elapsed = Date.now() - start;
-  log.debug(`goForward: completed in ${elapsed}ms`);
+  return traverse("forward", (params as WaitParams) || {}, ctx);
 }
 
 // ============================================================================
@@ -40,23 +40,20 @@ async function handleGetTitle(
   ctx: RequestContext
 ): Promise<GetTitleResult> {
   log.debug(`getTitle: tab=${ctx.tabId}, frame=${ctx.frameId}`);
-  const start = Date.now();
 
   if (ctx.frameId === MAIN_FRAME_ID) {
     const tab = await browser.tabs.get(ctx.tabId);
     const title = tab.title || "";
-    const elapsed = Date.now() - start;
     log.debug(
-      `getTitle: completed in ${elapsed}ms, title="${title.substring(0, 50)}${title.length > 50 ? "..." : ""}"`
+      `getTitle: title="${title.substring(0, 50)}${title.length > 50 ? "..." : ""}"`
     );
     return { title };
   }
 
   const result = await handleEvaluate({ script: "return document.title" }, ctx);
   const title = (result.value as string) || "";
-  const elapsed = Date.now() - start;
   log.debug(
-    `getTitle: completed in ${elapsed}ms (iframe), title="${title.substring(0, 50)}${title.length > 50 ? "..." : ""}"`
+    `getTitle: (iframe) title="${title.substring(0, 50)}${title.length > 50 ? "..." : ""}"`
   );
   return { title };
 }
@@ -66,13 +63,11 @@ async function handleGetUrl(
   ctx: RequestContext
 ): Promise<GetUrlResult> {
   log.debug(`getUrl: tab=${ctx.tabId}, frame=${ctx.frameId}`);
-  const start = Date.now();
 
   if (ctx.frameId === MAIN_FRAME_ID) {
     const tab = await browser.tabs.get(ctx.tabId);
     const url = tab.url || "";
-    const elapsed = Date.now() - start;
-    log.debug(`getUrl: completed in ${elapsed}ms, url=${url}`);
+    log.debug(`getUrl: url=${url}`);
     return { url };
   }
 
@@ -81,8 +76,7 @@ async function handleGetUrl(
     ctx
   );
   const url = (result.value as string) || "";
-  const elapsed = Date.now() - start;
-  log.debug(`getUrl: completed in ${elapsed}ms (iframe), url=${url}`);
+  log.debug(`getUrl: (iframe) url=${url}`);
   return { url };
 }
 
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Passive capture of the main document response.
+ *
+ * Observes the tab's `main_frame` request through non-blocking webRequest
+ * listeners, so navigation results can report status, headers and redirects
+ * without network interception being enabled.
+ *
+ * @module modules/browsingContext/response
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { createLogger } from "../../../core/logger.js";
+import { headersToRecord } from "../../../core/utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface RedirectHop {
+  url: string;
+  status: number;
+  statusText: string;
+  location: string;
+}
+
+/** Timestamps in epoch milliseconds. */
+interface ResponseTiming {
+  requestStart: number;
+  responseStart?: number;
+  responseEnd?: number;
+  /** Milliseconds from requestStart to responseEnd. */
+  duration?: number;
+}
+
+/** Main document response of a navigation. */
+interface NavigationResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  redirects: RedirectHop[];
+  remoteIp?: string;
+  fromCache: boolean;
+  timing: ResponseTiming;
+  /** Network error, if the request failed. */
+  error?: string;
+}
+
+/** Collects the response of the next main_frame request of a tab. */
+interface ResponseRecorder {
+  /** Recorded response, or undefined if no document was requested. */
+  result(): NavigationResponse | undefined;
+  stop(): void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("BrowsingContext.Response");
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Starts recording the main document response of a tab.
+ *
+ * A later main_frame request replaces an earlier one, so the recording
+ * follows the navigation that finally commits.
+ *
+ * @param tabId - Tab ID
+ * @returns Recorder; call `stop` to remove its listeners
+ */
+function recordDocumentResponse(tabId: number): ResponseRecorder {
+  const filter: browser.webRequest.RequestFilter = {
+    urls: ["<all_urls>"],
+    tabId,
+    types: ["main_frame"],
+  };
+
+  let requestId: string | null = null;
+  let response: NavigationResponse | undefined;
+
+  const isCurrent = (details: { requestId: string }): boolean =>
+    details.requestId === requestId && response !== undefined;
+
+  const onBeforeRequest = (
+    details: browser.webRequest._OnBeforeRequestDetails
+  ): void => {
+    // Redirects keep their request ID
+    if (details.requestId === requestId) return;
+
+    requestId = details.requestId;
+    response = {
+      url: details.url,
+      status: 0,
+      statusText: "",
+      headers: {},
+      redirects: [],
+      fromCache: false,
+      timing: { requestStart: details.timeStamp },
+    };
+  };
+
+  const onBeforeRedirect = (
+    details: browser.webRequest._OnBeforeRedirectDetails
+  ): void => {
+    if (!isCurrent(details) || !response) return;
+
+    response.redirects.push({
+      url: details.url,
+      status: details.statusCode,
+      statusText: details.statusLine,
+      location: details.redirectUrl,
+    });
+    response.url = details.redirectUrl;
+  };
+
+  const onHeadersReceived = (
+    details: browser.webRequest._OnHeadersReceivedDetails
+  ): void => {
+    if (!isCurrent(details) || !response) return;
+
+    response.url = details.url;
+    response.status = details.statusCode;
+    response.statusText = details.statusLine;
+    response.headers = headersToRecord(details.responseHeaders);
+  };
+
+  const onResponseStarted = (
+    details: browser.webRequest._OnResponseStartedDetails
+  ): void => {
+    if (!isCurrent(details) || !response) return;
+
+    response.timing.responseStart = details.timeStamp;
+    response.fromCache = details.fromCache;
+    if (details.ip) response.remoteIp = details.ip;
+  };
+
+  const onCompleted = (
+    details: browser.webRequest._OnCompletedDetails
+  ): void => {
+    if (!isCurrent(details) || !response) return;
+
+    // Cached responses skip onHeadersReceived
+    response.url = details.url;
+    response.status = details.statusCode;
+    response.statusText = details.statusLine;
+    if (Object.keys(response.headers).length === 0) {
+      response.headers = headersToRecord(details.responseHeaders);
+    }
+    response.fromCache = details.fromCache;
+    if (details.ip) response.remoteIp = details.ip;
+
+    response.timing.responseEnd = details.timeStamp;
+    response.timing.duration = details.timeStamp - response.timing.requestStart;
+  };
+
+  const onErrorOccurred = (
+    details: browser.webRequest._OnErrorOccurredDetails
+  ): void => {
+    if (!isCurrent(details) || !response) return;
+
+    response.error = details.error;
+    response.timing.responseEnd = details.timeStamp;
+    response.timing.duration = details.timeStamp - response.timing.requestStart;
+  };
+
+  browser.webRequest.onBeforeRequest.addListener(onBeforeRequest, filter);
+  browser.webRequest.onBeforeRedirect.addListener(onBeforeRedirect, filter);
+  browser.webRequest.onHeadersReceived.addListener(onHeadersReceived, filter, [
+    "responseHeaders",
+  ]);
+  browser.webRequest.onResponseStarted.addListener(onResponseStarted, filter);
+  browser.webRequest.onCompleted.addListener(onCompleted, filter, [
+    "responseHeaders",
+  ]);
+  browser.webRequest.onErrorOccurred.addListener(onErrorOccurred, filter);
+
+  return {
+    result: () => response,
+    stop: () => {
+      browser.webRequest.onBeforeRequest.removeListener(onBeforeRequest);
+      browser.webRequest.onBeforeRedirect.removeListener(onBeforeRedirect);
+      browser.webRequest.onHeadersReceived.removeListener(onHeadersReceived);
+      browser.webRequest.onResponseStarted.removeListener(onResponseStarted);
+      browser.webRequest.onCompleted.removeListener(onCompleted);
+      browser.webRequest.onErrorOccurred.removeListener(onErrorOccurred);
+
+      log.debug(
+        `Document response for tab ${tabId}: ${response ? `${response.status} ${response.url}` : "none"}`
+      );
+    },
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { NavigationResponse, RedirectHop, ResponseTiming };
+export { recordDocumentResponse };
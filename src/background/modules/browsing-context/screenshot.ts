@@ -8,20 +8,32 @@
 // ============================================================================
 
 import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+import { Attachment } from "../../../core/attachments.js";
+
+import type { ImageFormat, Rect } from "./capture.js";
+import { captureDocument, encodeCanvas, withCaptureTab } from "./capture.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 interface CaptureScreenshotParams {
-  format?: "png" | "jpeg";
+  format?: ImageFormat;
   quality?: number;
+  /** Capture the whole scrollable document. */
+  fullPage?: boolean;
+  /** Region in document CSS pixels; takes precedence over fullPage. */
+  clip?: Rect;
 }
 
 interface CaptureScreenshotResult {
-  data: string;
+  data: Attachment;
+  /** Captured region in document CSS pixels (fullPage and clip only). */
+  rect?: Rect;
 }
 
 // ============================================================================
@@ -38,16 +50,25 @@ async function handleCaptureScreenshot(
   params: unknown,
   ctx: RequestContext
 ): Promise<CaptureScreenshotResult> {
-  const { format = "png", quality } = (params as CaptureScreenshotParams) || {};
+  const {
+    format = "png",
+    quality,
+    fullPage = false,
+    clip,
+  } = (params as CaptureScreenshotParams) || {};
 
   log.debug(
-    `captureScreenshot: tab=${ctx.tabId}, format=${format}, quality=${quality ?? "default"}`
+    `captureScreenshot: tab=${ctx.tabId}, format=${format}, quality=${quality ?? "default"}, fullPage=${fullPage}, clip=${clip ? JSON.stringify(clip) : "none"}`
   );
-  const start = Date.now();
 
-  const tab = await browser.tabs.get(ctx.tabId);
-  if (!tab.windowId) {
-    throw new Error("Tab has no window");
+  if (fullPage || clip) {
+    const capture = await captureDocument(ctx.tabId, clip ?? null, {
+      signal: ctx.signal,
+    });
+    return {
+      data: await encodeCanvas(capture.canvas, format, quality),
+      rect: capture.rect,
+    };
   }
 
   const options: browser.extensionTypes.ImageDetails = {
@@ -58,20 +79,27 @@ async function handleCaptureScreenshot(
     options.quality = quality;
   }
 
-  const dataUrl = await browser.tabs.captureVisibleTab(tab.windowId, options);
+  const dataUrl = await withCaptureTab(ctx.tabId, (windowId) =>
+    browser.tabs.captureVisibleTab(windowId, options)
+  );
 
   // Extract base64 data from data URL
   const base64Data = dataUrl.split(",")[1];
   if (!base64Data) {
-    throw new Error("Failed to capture screenshot");
+    throw new WebDriverError(
+      ErrorCode.UnknownError,
+      "Failed to capture screenshot"
+    );
   }
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `captureScreenshot: completed in ${elapsed}ms, ${base64Data.length} bytes`
-  );
+  log.debug(`captureScreenshot: ${base64Data.length} bytes`);
 
-  return { data: base64Data };
+  return {
+    data: Attachment.fromBase64(
+      base64Data,
+      format === "jpeg" ? "image/jpeg" : "image/png"
+    ),
+  };
 }
 
 // ============================================================================
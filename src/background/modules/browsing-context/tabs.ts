@@ -8,10 +8,13 @@
 // ============================================================================
 
 import type { RequestContext } from "../../../types/index.js";
-import type { TabId } from "../../../types/identifiers.js";
+import type { TabId, WindowId } from "../../../types/identifiers.js";
 
-import { createTabId } from "../../../types/identifiers.js";
+import { createTabId, createWindowId } from "../../../types/identifiers.js";
+import { ErrorCode } from "../../../types/index.js";
 import { createLogger } from "../../../core/logger.js";
+import { sessions } from "../../../core/session-manager.js";
+import { WebDriverError } from "../../../core/errors.js";
 
 // ============================================================================
 // Types
@@ -26,41 +29,129 @@ interface NewTabResult {
   url: string;
 }
 
+interface ListTabsParams {
+  windowId?: number;
+}
+
+interface TabInfo {
+  tabId: TabId;
+  windowId: WindowId;
+  url: string;
+  title: string;
+  active: boolean;
+  /** Position in the window's tab strip. */
+  index: number;
+  /** Tab that opened this one (window.open, target=_blank). */
+  openerTabId?: TabId;
+  status?: string;
+  private: boolean;
+}
+
+interface WindowTree {
+  windowId: WindowId;
+  focused: boolean;
+  tabs: TabInfo[];
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
 
 const log = createLogger("BrowsingContext.Tabs");
 
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+/**
+ * Converts a tab to the protocol's tab description.
+ *
+ * @param tab - Tab with an ID
+ * @returns Tab info
+ */
+function toTabInfo(tab: browser.tabs.Tab & { id: number }): TabInfo {
+  const info: TabInfo = {
+    tabId: createTabId(tab.id),
+    windowId: createWindowId(tab.windowId ?? -1),
+    url: tab.url ?? "",
+    title: tab.title ?? "",
+    active: tab.active,
+    index: tab.index,
+    private: tab.incognito,
+  };
+  if (tab.openerTabId !== undefined) {
+    info.openerTabId = createTabId(tab.openerTabId);
+  }
+  if (tab.status !== undefined) info.status = tab.status;
+  return info;
+}
+
+/**
+ * Gets the window of a tab.
+ *
+ * @param tabId - Tab ID
+ * @returns Window ID
+ * @throws WebDriverError (`no such tab`) if the tab has no window
+ */
+async function getTabWindow(tabId: number): Promise<number> {
+  const tab = await browser.tabs.get(tabId);
+  if (!tab.windowId) {
+    throw new WebDriverError(ErrorCode.NoSuchTab, "Tab has no window", {
+      tabId,
+    });
+  }
+  return tab.windowId;
+}
+
+function accessibleTabs(
+  tabs: browser.tabs.Tab[],
+  sessionId: number
+): TabInfo[] {
+  return tabs
+    .filter(
+      (tab): tab is browser.tabs.Tab & { id: number } =>
+        tab.id !== undefined && sessions.canAccessTab(sessionId, tab.id)
+    )
+    .map(toTabInfo);
+}
+
 // ============================================================================
 // Implementation
 // ============================================================================
 
 async function handleNewTab(
   params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<NewTabResult> {
   const { url } = (params as NewTabParams) || {};
 
   log.debug(`newTab: url=${url ?? "about:blank"}`);
-  const start = Date.now();
 
   const createProps: browser.tabs._CreateCreateProperties = {};
   if (url) {
     createProps.url = url;
   }
 
+  // Open in the session's own window rather than whichever has focus
+  const windowId = sessions.getWindow(ctx.sessionId);
+  if (windowId !== undefined) {
+    createProps.windowId = windowId;
+  }
+
   const tab = await browser.tabs.create(createProps);
 
   if (tab.id === undefined) {
-    throw new Error("Failed to create tab: no ID returned");
+    throw new WebDriverError(
+      ErrorCode.UnknownError,
+      "Failed to create tab: no ID returned"
+    );
   }
 
   const tabId = createTabId(tab.id);
+  sessions.claimTab(ctx.sessionId, tabId);
   const tabUrl = tab.url || "about:blank";
 
-  const elapsed = Date.now() - start;
-  log.debug(`newTab: completed in ${elapsed}ms, tabId=${tabId}, url=${tabUrl}`);
+  log.debug(`newTab: tabId=${tabId}, url=${tabUrl}`);
 
   return { tabId, url: tabUrl };
 }
@@ -70,16 +161,56 @@ async function handleCloseTab(
   ctx: RequestContext
 ): Promise<void> {
   log.debug(`closeTab: tab=${ctx.tabId}`);
-  const start = Date.now();
 
   await browser.tabs.remove(ctx.tabId);
+}
+
+async function handleListTabs(
+  params: unknown,
+  ctx: RequestContext
+): Promise<{ tabs: TabInfo[] }> {
+  const { windowId } = (params as ListTabsParams) || {};
+
+  log.debug(`listTabs: windowId=${windowId ?? "all"}`);
+
+  const tabs = await browser.tabs.query(
+    windowId !== undefined ? { windowId } : {}
+  );
+
+  return { tabs: accessibleTabs(tabs, ctx.sessionId) };
+}
+
+async function handleGetTree(
+  _params: unknown,
+  ctx: RequestContext
+): Promise<{ windows: WindowTree[] }> {
+  log.debug(`getTree: session=${ctx.sessionId}`);
+
+  const windows = await browser.windows.getAll({ populate: true });
+  const tree: WindowTree[] = [];
+
+  for (const win of windows) {
+    if (win.id === undefined) continue;
+
+    const tabs = accessibleTabs(win.tabs ?? [], ctx.sessionId);
+    if (tabs.length === 0) continue;
+
+    tree.push({ windowId: createWindowId(win.id), focused: win.focused, tabs });
+  }
 
-  const elapsed = Date.now() - start;
-  log.debug(`closeTab: completed in ${elapsed}ms`);
+  return { windows: tree };
 }
 
 // ============================================================================
 // Exports
 // ============================================================================
 
-export { handleNewTab, handleCloseTab };
+export type { TabInfo };
+export {
+  handleNewTab,
+  handleCloseTab,
+  handleListTabs,
+  handleGetTree,
+  toTabInfo,
+  getTabWindow,
+};
@@ -0,0 +1,508 @@
+/**
+ * @fileoverview Navigation wait strategies for browsingContext module.
+ *
+ * Waits are armed before the navigation is started so fast pages cannot
+ * finish unnoticed. Lifecycle stages come from `webNavigation` (commit,
+ * DOMContentLoaded) and `tabs.onUpdated` (load, which also covers pages
+ * restored from the back-forward cache). Same-document navigations
+ * (`pushState`, fragment changes) complete every stage at once. `networkIdle` then waits until the
+ * tab has had no requests in flight for `idleTime`, and a selector condition
+ * polls the main frame until the element exists. The main document's
+ * response is recorded along the way.
+ *
+ * @module modules/browsingContext/wait
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { SelectorStrategy } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
+
+import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+
+import type { NavigationResponse } from "./response.js";
+import { recordDocumentResponse } from "./response.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type WaitCondition =
+  | "none"
+  | "commit"
+  | "domContentLoaded"
+  | "load"
+  | "networkIdle";
+
+/** Element that must be present before the wait completes. */
+interface SelectorCondition {
+  strategy: SelectorStrategy;
+  value: string;
+}
+
+/** Wait parameters shared by navigate, reload, goBack and goForward. */
+interface WaitParams {
+  wait?: WaitCondition;
+  /** Overall timeout in milliseconds. */
+  timeout?: number;
+  /** Quiet period for `networkIdle` in milliseconds. */
+  idleTime?: number;
+  selector?: SelectorCondition;
+}
+
+interface WaitResult {
+  url: string;
+  /** Main document response, if the navigation requested one. */
+  response?: NavigationResponse;
+  /** Element matching `selector`, if one was given. */
+  elementId?: string;
+}
+
+type LifecycleStage = "commit" | "domContentLoaded" | "load";
+
+interface NavigateOptions {
+  /** URL being navigated to, if known. */
+  targetUrl?: string;
+  /**
+   * Return the current URL if no navigation starts within this time
+   * (history traversal may have nothing to do).
+   */
+  startGraceMs?: number;
+}
+
+interface RequestTracker {
+  readonly pending: Set<string>;
+  lastActivity: number;
+  stop(): void;
+}
+
+interface FindResponse {
+  success: boolean;
+  elementId?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_IDLE_MS = 500;
+const POLL_INTERVAL_MS = 100;
+
+/** Error reported for a navigation replaced by a newer one. */
+const ABORTED_ERROR = "NS_BINDING_ABORTED";
+
+const log = createLogger("BrowsingContext.Wait");
+
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+function remaining(deadline: number): number {
+  return Math.max(0, deadline - Date.now());
+}
+
+function timeoutError(
+  stage: string,
+  timeoutMs: number,
+  data: Record<string, unknown>
+): WebDriverError {
+  return new WebDriverError(
+    ErrorCode.Timeout,
+    `Navigation wait (${stage}) timed out after ${timeoutMs}ms`,
+    { ...data, stage, timeoutMs }
+  );
+}
+
+/**
+ * Polls a condition until it returns a value.
+ *
+ * @param check - Returns a value when satisfied, undefined otherwise
+ * @param timeoutMs - Time allowed
+ * @param signal - Stops polling on abort
+ * @param onTimeout - Error thrown on timeout
+ * @returns Value returned by check
+ */
+async function poll<T>(
+  check: () => Promise<T | undefined> | T | undefined,
+  timeoutMs: number,
+  signal: AbortSignal,
+  onTimeout: () => WebDriverError
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    signal.throwIfAborted();
+
+    const value = await check();
+    if (value !== undefined) return value;
+
+    if (Date.now() >= deadline) throw onTimeout();
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(POLL_INTERVAL_MS, remaining(deadline)))
+    );
+  }
+}
+
+// ============================================================================
+// Implementation - Lifecycle
+// ============================================================================
+
+/**
+ * Waits for the top-level document of a tab to reach a lifecycle stage.
+ *
+ * @param tabId - Tab ID
+ * @param stage - Stage to wait for
+ * @param options - Target URL and start grace period
+ * @param timeoutMs - Time allowed
+ * @param signal - Stops waiting on abort
+ * @returns URL of the document
+ */
+function waitForLifecycle(
+  tabId: number,
+  stage: LifecycleStage,
+  options: NavigateOptions,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<string> {
+  const { targetUrl, startGraceMs } = options;
+  const isDataUri = targetUrl?.startsWith("data:") ?? false;
+  const targetUrlPrefix = targetUrl?.substring(0, 100);
+
+  return new Promise((resolve, reject) => {
+    let done = false;
+    let sawLoading = false;
+    let sawCommit = false;
+    let started = false;
+    /** A new document is on its way; same-document updates are then ignored. */
+    let crossDocument = false;
+
+    const finish = (result: string | Error): void => {
+      if (done) return;
+      done = true;
+      clearTimeout(timeoutId);
+      clearTimeout(graceId);
+      browser.tabs.onUpdated.removeListener(onUpdated);
+      browser.webNavigation.onBeforeNavigate.removeListener(onBeforeNavigate);
+      browser.webNavigation.onCommitted.removeListener(onCommitted);
+      browser.webNavigation.onDOMContentLoaded.removeListener(onDOMContent);
+      browser.webNavigation.onHistoryStateUpdated.removeListener(
+        onSameDocument
+      );
+      browser.webNavigation.onReferenceFragmentUpdated.removeListener(
+        onSameDocument
+      );
+      browser.webNavigation.onErrorOccurred.removeListener(onError);
+      signal.removeEventListener("abort", onAbort);
+
+      if (typeof result === "string") {
+        log.debug(`Lifecycle ${stage} reached`, { tabId, url: result });
+        resolve(result);
+      } else {
+        reject(result);
+      }
+    };
+
+    const onAbort = (): void => {
+      log.debug("Navigation wait aborted", { tabId });
+      finish(signal.reason as Error);
+    };
+
+    const timeoutId = setTimeout(() => {
+      log.warn("Navigation timeout", { tabId, stage });
+      finish(timeoutError(stage, timeoutMs, { tabId, url: targetUrl }));
+    }, timeoutMs);
+
+    const graceId =
+      startGraceMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            if (started) return;
+            log.debug("No navigation started", { tabId, startGraceMs });
+            browser.tabs
+              .get(tabId)
+              .then((tab) => finish(tab.url ?? ""))
+              .catch((err: unknown) =>
+                finish(err instanceof Error ? err : new Error(String(err)))
+              );
+          }, startGraceMs);
+
+    const onBeforeNavigate = (
+      details: browser.webNavigation._OnBeforeNavigateDetails
+    ): void => {
+      if (details.tabId !== tabId || details.frameId !== 0) return;
+      started = true;
+      crossDocument = true;
+    };
+
+    const onCommitted = (
+      details: browser.webNavigation._OnCommittedDetails
+    ): void => {
+      if (details.tabId !== tabId || details.frameId !== 0) return;
+      started = true;
+      crossDocument = true;
+      sawCommit = true;
+      if (stage === "commit") finish(details.url);
+    };
+
+    const onDOMContent = (
+      details: browser.webNavigation._OnDOMContentLoadedDetails
+    ): void => {
+      if (details.tabId !== tabId || details.frameId !== 0) return;
+      if (stage === "domContentLoaded" && sawCommit) finish(details.url);
+    };
+
+    // pushState and fragment changes load no document, unless they come
+    // from a page that is still loading after a cross-document navigation
+    const onSameDocument = (details: {
+      tabId: number;
+      frameId: number;
+      url: string;
+    }): void => {
+      if (details.tabId !== tabId || details.frameId !== 0) return;
+      if (crossDocument) return;
+      finish(details.url);
+    };
+
+    const onError = (
+      details: browser.webNavigation._OnErrorOccurredDetails
+    ): void => {
+      if (details.tabId !== tabId || details.frameId !== 0) return;
+      if (details.error === ABORTED_ERROR) return;
+      finish(
+        new WebDriverError(
+          ErrorCode.UnknownError,
+          `Navigation failed: ${details.error}`,
+          { tabId, url: details.url, error: details.error }
+        )
+      );
+    };
+
+    // Load completes every stage; pages from the back-forward cache only
+    // report it here
+    const onUpdated = (
+      updatedTabId: number,
+      changeInfo: browser.tabs._OnUpdatedChangeInfo,
+      tab: browser.tabs.Tab
+    ): void => {
+      if (updatedTabId !== tabId) return;
+
+      if (changeInfo.status === "loading") {
+        started = true;
+        sawLoading = true;
+      }
+      if (changeInfo.status !== "complete" || !tab.url) return;
+
+      if (isDataUri) {
+        if (targetUrlPrefix && tab.url.startsWith(targetUrlPrefix)) {
+          finish(tab.url);
+        }
+      } else if (
+        sawLoading &&
+        (targetUrl === undefined || !tab.url.startsWith("data:"))
+      ) {
+        finish(tab.url);
+      }
+    };
+
+    browser.tabs.onUpdated.addListener(onUpdated);
+    browser.webNavigation.onBeforeNavigate.addListener(onBeforeNavigate);
+    browser.webNavigation.onCommitted.addListener(onCommitted);
+    browser.webNavigation.onDOMContentLoaded.addListener(onDOMContent);
+    browser.webNavigation.onHistoryStateUpdated.addListener(onSameDocument);
+    browser.webNavigation.onReferenceFragmentUpdated.addListener(
+      onSameDocument
+    );
+    browser.webNavigation.onErrorOccurred.addListener(onError);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// Implementation - Network Idle
+// ============================================================================
+
+/**
+ * Tracks requests of a tab that are in flight.
+ *
+ * @param tabId - Tab ID
+ * @returns Tracker; call `stop` to remove its listeners
+ */
+function trackRequests(tabId: number): RequestTracker {
+  const filter: browser.webRequest.RequestFilter = {
+    urls: ["<all_urls>"],
+    tabId,
+  };
+
+  const onStart = (details: { requestId: string }): void => {
+    tracker.pending.add(details.requestId);
+    tracker.lastActivity = Date.now();
+  };
+  const onEnd = (details: { requestId: string }): void => {
+    tracker.pending.delete(details.requestId);
+    tracker.lastActivity = Date.now();
+  };
+
+  const tracker: RequestTracker = {
+    pending: new Set(),
+    lastActivity: Date.now(),
+    stop: () => {
+      browser.webRequest.onBeforeRequest.removeListener(onStart);
+      browser.webRequest.onCompleted.removeListener(onEnd);
+      browser.webRequest.onErrorOccurred.removeListener(onEnd);
+    },
+  };
+
+  browser.webRequest.onBeforeRequest.addListener(onStart, filter);
+  browser.webRequest.onCompleted.addListener(onEnd, filter);
+  browser.webRequest.onErrorOccurred.addListener(onEnd, filter);
+
+  return tracker;
+}
+
+function waitForNetworkIdle(
+  tracker: RequestTracker,
+  idleMs: number,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<true> {
+  return poll(
+    () =>
+      tracker.pending.size === 0 && Date.now() - tracker.lastActivity >= idleMs
+        ? true
+        : undefined,
+    timeoutMs,
+    signal,
+    () =>
+      timeoutError("networkIdle", timeoutMs, {
+        pendingRequests: tracker.pending.size,
+      })
+  );
+}
+
+// ============================================================================
+// Implementation - Selector
+// ============================================================================
+
+function waitForSelector(
+  tabId: number,
+  selector: SelectorCondition,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<string> {
+  const { strategy, value } = selector;
+
+  return poll(
+    async () => {
+      try {
+        const response = (await browser.tabs.sendMessage(
+          tabId,
+          { type: "ELEMENT_FIND", strategy, value },
+          { frameId: 0 }
+        )) as FindResponse | undefined;
+        return response?.success ? response.elementId : undefined;
+      } catch {
+        // Content script of the new document is not ready yet
+        return undefined;
+      }
+    },
+    timeoutMs,
+    signal,
+    () => timeoutError("selector", timeoutMs, { strategy, value })
+  );
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Starts a navigation and waits for the requested condition.
+ *
+ * @param tabId - Tab ID
+ * @param start - Starts the navigation
+ * @param params - Wait condition, timeout, idle time and selector
+ * @param signal - Request abort signal
+ * @param options - Target URL and start grace period
+ * @returns Final URL and the selector's element
+ * @throws WebDriverError (`timeout`) if a stage is not reached in time
+ */
+async function navigateAndWait(
+  tabId: number,
+  start: () => Promise<unknown>,
+  params: WaitParams,
+  signal: AbortSignal,
+  options: NavigateOptions = {}
+): Promise<WaitResult> {
+  const { targetUrl } = options;
+  const {
+    wait = "load",
+    timeout = DEFAULT_TIMEOUT_MS,
+    idleTime = DEFAULT_IDLE_MS,
+    selector,
+  } = params;
+  const deadline = Date.now() + timeout;
+
+  log.debug(
+    `navigateAndWait: tab=${tabId}, wait=${wait}, timeout=${timeout}, selector=${selector ? `${selector.strategy}=${selector.value}` : "none"}`
+  );
+
+  // Removes listeners if starting the navigation fails
+  const controller = new AbortController();
+  const waitSignal = AbortSignal.any([signal, controller.signal]);
+  const tracker = wait === "networkIdle" ? trackRequests(tabId) : null;
+  const recorder = recordDocumentResponse(tabId);
+
+  try {
+    const lifecycle =
+      wait === "none"
+        ? null
+        : waitForLifecycle(
+            tabId,
+            wait === "networkIdle" ? "load" : wait,
+            options,
+            timeout,
+            waitSignal
+          );
+    // Rejections are observed below, or irrelevant once start fails
+    void lifecycle?.catch(() => {});
+
+    await start();
+
+    const url = lifecycle
+      ? await lifecycle
+      : (targetUrl ?? (await browser.tabs.get(tabId)).url ?? "");
+
+    if (tracker) {
+      await waitForNetworkIdle(tracker, idleTime, remaining(deadline), signal);
+    }
+
+    const result: WaitResult = { url };
+    const response = recorder.result();
+    if (response) result.response = response;
+
+    if (selector) {
+      result.elementId = await waitForSelector(
+        tabId,
+        selector,
+        remaining(deadline),
+        signal
+      );
+    }
+    return result;
+  } finally {
+    tracker?.stop();
+    recorder.stop();
+    controller.abort();
+  }
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { NavigateOptions, WaitCondition, WaitParams, WaitResult };
+export { navigateAndWait };
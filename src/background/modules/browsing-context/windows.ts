@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Window management handlers for browsingContext module.
+ * @module modules/browsingContext/windows
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { RequestContext } from "../../../types/index.js";
+import type { TabId, WindowId } from "../../../types/identifiers.js";
+
+import { createTabId, createWindowId } from "../../../types/identifiers.js";
+import { ErrorCode } from "../../../types/index.js";
+import { createLogger } from "../../../core/logger.js";
+import { sessions } from "../../../core/session-manager.js";
+import { WebDriverError } from "../../../core/errors.js";
+
+import { getTabWindow } from "./tabs.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type WindowState = "normal" | "minimized" | "maximized" | "fullscreen";
+
+interface WindowParams {
+  /** Target window (defaults to the window of the request's tab). */
+  windowId?: number;
+}
+
+interface NewWindowParams {
+  url?: string;
+  type?: "normal" | "popup";
+  private?: boolean;
+  focused?: boolean;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
+interface SetWindowRectParams extends WindowParams {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
+interface WindowRect {
+  windowId: WindowId;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  state: WindowState;
+}
+
+interface WindowInfo extends WindowRect {
+  type: string;
+  focused: boolean;
+  private: boolean;
+  tabIds: TabId[];
+}
+
+interface NewWindowResult {
+  windowId: WindowId;
+  tabId: TabId;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("BrowsingContext.Windows");
+
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+/**
+ * Resolves the target window of a request.
+ *
+ * @throws WebDriverError (`no such window`) if the window belongs to
+ *   another session
+ */
+async function resolveWindow(
+  params: WindowParams | undefined,
+  ctx: RequestContext
+): Promise<number> {
+  const windowId = params?.windowId ?? (await getTabWindow(ctx.tabId));
+
+  if (!sessions.canAccessWindow(ctx.sessionId, windowId)) {
+    throw new WebDriverError(
+      ErrorCode.NoSuchWindow,
+      `Window ${windowId} belongs to another session`,
+      { windowId }
+    );
+  }
+  return windowId;
+}
+
+async function getWindow(windowId: number): Promise<browser.windows.Window> {
+  try {
+    return await browser.windows.get(windowId, { populate: true });
+  } catch {
+    throw new WebDriverError(
+      ErrorCode.NoSuchWindow,
+      `Window not found: ${windowId}`,
+      { windowId }
+    );
+  }
+}
+
+function toState(state: browser.windows.WindowState | undefined): WindowState {
+  return state === "minimized" ||
+    state === "maximized" ||
+    state === "fullscreen"
+    ? state
+    : "normal";
+}
+
+function toRect(win: browser.windows.Window): WindowRect {
+  return {
+    windowId: createWindowId(win.id ?? -1),
+    x: win.left ?? 0,
+    y: win.top ?? 0,
+    width: win.width ?? 0,
+    height: win.height ?? 0,
+    state: toState(win.state),
+  };
+}
+
+function toInfo(win: browser.windows.Window): WindowInfo {
+  return {
+    ...toRect(win),
+    type: win.type ?? "normal",
+    focused: win.focused,
+    private: win.incognito,
+    tabIds: (win.tabs ?? []).flatMap((tab) =>
+      tab.id !== undefined ? [createTabId(tab.id)] : []
+    ),
+  };
+}
+
+async function setState(
+  windowId: number,
+  state: WindowState
+): Promise<WindowRect> {
+  await getWindow(windowId);
+  await browser.windows.update(windowId, { state });
+  return toRect(await getWindow(windowId));
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+async function handleNewWindow(
+  params: unknown,
+  ctx: RequestContext
+): Promise<NewWindowResult> {
+  const {
+    url,
+    type = "normal",
+    private: incognito,
+    focused,
+    x,
+    y,
+    width,
+    height,
+  } = (params as NewWindowParams) || {};
+
+  log.debug(
+    `newWindow: url=${url ?? "about:blank"}, type=${type}, private=${incognito ?? false}`
+  );
+
+  const createData: browser.windows._CreateCreateData = { type };
+  if (url) createData.url = url;
+  if (incognito !== undefined) createData.incognito = incognito;
+  if (focused !== undefined) createData.focused = focused;
+  if (x !== undefined) createData.left = x;
+  if (y !== undefined) createData.top = y;
+  if (width !== undefined) createData.width = width;
+  if (height !== undefined) createData.height = height;
+
+  const win = await browser.windows.create(createData);
+  const tab = win.tabs?.[0];
+
+  if (win.id === undefined || tab?.id === undefined) {
+    throw new WebDriverError(
+      ErrorCode.UnknownError,
+      "Failed to create window: no ID returned"
+    );
+  }
+
+  // Tabs created before the window was claimed are not inherited
+  sessions.claimWindow(ctx.sessionId, win.id);
+  for (const windowTab of win.tabs ?? []) {
+    if (windowTab.id !== undefined) {
+      sessions.claimTab(ctx.sessionId, windowTab.id);
+    }
+  }
+
+  log.debug(`newWindow: windowId=${win.id}, tabId=${tab.id}`);
+
+  return { windowId: createWindowId(win.id), tabId: createTabId(tab.id) };
+}
+
+async function handleCloseWindow(
+  params: unknown,
+  ctx: RequestContext
+): Promise<void> {
+  const windowId = await resolveWindow(params as WindowParams, ctx);
+
+  log.debug(`closeWindow: windowId=${windowId}`);
+
+  await getWindow(windowId);
+  await browser.windows.remove(windowId);
+}
+
+async function handleGetWindowRect(
+  params: unknown,
+  ctx: RequestContext
+): Promise<WindowRect> {
+  const windowId = await resolveWindow(params as WindowParams, ctx);
+
+  log.debug(`getWindowRect: windowId=${windowId}`);
+
+  return toRect(await getWindow(windowId));
+}
+
+async function handleSetWindowRect(
+  params: unknown,
+  ctx: RequestContext
+): Promise<WindowRect> {
+  const { x, y, width, height } = (params as SetWindowRectParams) || {};
+  const windowId = await resolveWindow(params as SetWindowRectParams, ctx);
+
+  log.debug(
+    `setWindowRect: windowId=${windowId}, x=${x ?? "-"}, y=${y ?? "-"}, width=${width ?? "-"}, height=${height ?? "-"}`
+  );
+
+  // Maximized, minimized and fullscreen windows ignore size changes
+  const win = await getWindow(windowId);
+  if (win.state !== "normal") {
+    await browser.windows.update(windowId, { state: "normal" });
+  }
+
+  const updateInfo: browser.windows._UpdateUpdateInfo = {};
+  if (x !== undefined) updateInfo.left = x;
+  if (y !== undefined) updateInfo.top = y;
+  if (width !== undefined) updateInfo.width = width;
+  if (height !== undefined) updateInfo.height = height;
+
+  await browser.windows.update(windowId, updateInfo);
+
+  return toRect(await getWindow(windowId));
+}
+
+async function handleMinimize(
+  params: unknown,
+  ctx: RequestContext
+): Promise<WindowRect> {
+  const windowId = await resolveWindow(params as WindowParams, ctx);
+  log.debug(`minimize: windowId=${windowId}`);
+  return setState(windowId, "minimized");
+}
+
+async function handleMaximize(
+  params: unknown,
+  ctx: RequestContext
+): Promise<WindowRect> {
+  const windowId = await resolveWindow(params as WindowParams, ctx);
+  log.debug(`maximize: windowId=${windowId}`);
+  return setState(windowId, "maximized");
+}
+
+async function handleFullscreen(
+  params: unknown,
+  ctx: RequestContext
+): Promise<WindowRect> {
+  const windowId = await resolveWindow(params as WindowParams, ctx);
+  log.debug(`fullscreen: windowId=${windowId}`);
+  return setState(windowId, "fullscreen");
+}
+
+async function handleListWindows(
+  _params: unknown,
+  ctx: RequestContext
+): Promise<{ windows: WindowInfo[] }> {
+  log.debug(`listWindows: session=${ctx.sessionId}`);
+
+  const windows = await browser.windows.getAll({ populate: true });
+
+  return {
+    windows: windows
+      .filter(
+        (win) =>
+          win.id !== undefined &&
+          sessions.canAccessWindow(ctx.sessionId, win.id)
+      )
+      .map(toInfo),
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export {
+  handleNewWindow,
+  handleCloseWindow,
+  handleGetWindowRect,
+  handleSetWindowRect,
+  handleMinimize,
+  handleMaximize,
+  handleFullscreen,
+  handleListWindows,
+};
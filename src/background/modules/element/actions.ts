@@ -10,6 +10,7 @@
 import type { RequestContext } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
 
 // ============================================================================
 // Types
@@ -37,6 +38,7 @@ interface ContentResponse {
   value?: unknown;
   error?: string;
   code?: string;
+  data?: Record<string, unknown>;
 }
 
 interface ActionResult {
@@ -59,17 +61,9 @@ async function handleGetProperty(
 ): Promise<ActionResult> {
   const { elementId, name } = params as GetPropertyParams;
 
-  if (!elementId) {
-    throw new Error("elementId is required");
-  }
-  if (!name) {
-    throw new Error("name is required");
-  }
-
   log.debug(
     `getProperty: elementId=${elementId}, name="${name}", tab=${ctx.tabId}`
   );
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -78,15 +72,13 @@ async function handleGetProperty(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Failed to get property");
-    error.name = response?.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Failed to get property"
+    );
   }
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `getProperty: completed in ${elapsed}ms, value type=${typeof response.value}`
-  );
+  log.debug(`getProperty: value type=${typeof response.value}`);
 
   return { value: response.value };
 }
@@ -97,17 +89,9 @@ async function handleSetProperty(
 ): Promise<ActionResult> {
   const { elementId, name, value } = params as SetPropertyParams;
 
-  if (!elementId) {
-    throw new Error("elementId is required");
-  }
-  if (!name) {
-    throw new Error("name is required");
-  }
-
   log.debug(
     `setProperty: elementId=${elementId}, name="${name}", tab=${ctx.tabId}`
   );
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -116,14 +100,12 @@ async function handleSetProperty(
   )) as ContentResponse;
 
   if (!response.success) {
-    const error = new Error(response.error || "Failed to set property");
-    error.name = response.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Failed to set property"
+    );
   }
 
-  const elapsed = Date.now() - start;
-  log.debug(`setProperty: completed in ${elapsed}ms`);
-
   return {};
 }
 
@@ -133,17 +115,9 @@ async function handleCallMethod(
 ): Promise<ActionResult> {
   const { elementId, name, args } = params as CallMethodParams;
 
-  if (!elementId) {
-    throw new Error("elementId is required");
-  }
-  if (!name) {
-    throw new Error("name is required");
-  }
-
   log.debug(
     `callMethod: elementId=${elementId}, name="${name}", args=${args?.length ?? 0}, tab=${ctx.tabId}`
   );
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -158,15 +132,10 @@ async function handleCallMethod(
   )) as ContentResponse;
 
   if (!response.success) {
-    const error = new Error(response.error || "Failed to call method");
-    error.name = response.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(response, "Failed to call method");
   }
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `callMethod: completed in ${elapsed}ms, result type=${typeof response.value}`
-  );
+  log.debug(`callMethod: result type=${typeof response.value}`);
 
   return { value: response.value };
 }
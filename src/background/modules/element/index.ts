@@ -8,7 +8,9 @@
 // ============================================================================
 
 import { registry } from "../../../core/registry.js";
+import { sessions } from "../../../core/session-manager.js";
 import { createLogger } from "../../../core/logger.js";
+import { SELECTOR_STRATEGIES } from "../../../types/index.js";
 
 import { handleFind, handleFindAll } from "./search.js";
 import {
@@ -23,6 +25,7 @@ import {
   handleUnwatchRemoval,
   handleWatchAttribute,
   handleUnwatchAttribute,
+  getSubscriptionState,
 } from "./observer.js";
 import { handleCaptureScreenshot } from "./screenshot.js";
 
@@ -36,21 +39,69 @@ const log = createLogger("Element");
 // Registration
 // ============================================================================
 
-registry.register("element.find", handleFind);
-registry.register("element.findAll", handleFindAll);
+registry.register("element.find", handleFind, {
+  strategy: { type: "string", required: true, enum: SELECTOR_STRATEGIES },
+  value: { type: "string", required: true },
+  parentId: { type: "string" },
+});
+registry.register("element.findAll", handleFindAll, {
+  strategy: { type: "string", required: true, enum: SELECTOR_STRATEGIES },
+  value: { type: "string", required: true },
+  parentId: { type: "string" },
+});
 
-registry.register("element.getProperty", handleGetProperty);
-registry.register("element.setProperty", handleSetProperty);
-registry.register("element.callMethod", handleCallMethod);
+registry.register("element.getProperty", handleGetProperty, {
+  elementId: { type: "string", required: true },
+  name: { type: "string", required: true },
+});
+registry.register("element.setProperty", handleSetProperty, {
+  elementId: { type: "string", required: true },
+  name: { type: "string", required: true },
+  value: { type: "any", required: true },
+});
+registry.register("element.callMethod", handleCallMethod, {
+  elementId: { type: "string", required: true },
+  name: { type: "string", required: true },
+  args: { type: "array", items: { type: "any" } },
+});
 
-registry.register("element.subscribe", handleSubscribe);
-registry.register("element.unsubscribe", handleUnsubscribe);
-registry.register("element.watchRemoval", handleWatchRemoval);
-registry.register("element.unwatchRemoval", handleUnwatchRemoval);
-registry.register("element.watchAttribute", handleWatchAttribute);
-registry.register("element.unwatchAttribute", handleUnwatchAttribute);
+registry.register("element.subscribe", handleSubscribe, {
+  strategy: { type: "string", required: true, enum: SELECTOR_STRATEGIES },
+  value: { type: "string", required: true },
+  oneShot: { type: "boolean", required: true },
+  timeout: { type: "integer", minimum: 0 },
+});
+registry.register("element.unsubscribe", handleUnsubscribe, {
+  subscriptionId: { type: "string", required: true },
+});
+registry.register("element.watchRemoval", handleWatchRemoval, {
+  elementId: { type: "string", required: true },
+});
+registry.register("element.unwatchRemoval", handleUnwatchRemoval, {
+  elementId: { type: "string", required: true },
+});
+registry.register("element.watchAttribute", handleWatchAttribute, {
+  elementId: { type: "string", required: true },
+  attributeName: { type: "string" },
+});
+registry.register("element.unwatchAttribute", handleUnwatchAttribute, {
+  elementId: { type: "string", required: true },
+});
 
-registry.register("element.captureScreenshot", handleCaptureScreenshot);
+registry.register("element.captureScreenshot", handleCaptureScreenshot, {
+  elementId: { type: "string", required: true },
+  format: { type: "string", enum: ["png", "jpeg"] },
+  quality: { type: "integer", minimum: 0, maximum: 100 },
+  padding: { type: "number", minimum: 0 },
+  mask: { type: "array", items: { type: "string" } },
+  maskColor: { type: "string" },
+});
+
+registry.registerEvent("element.added");
+registry.registerEvent("element.removed");
+registry.registerEvent("element.attributeChanged");
+
+sessions.registerResumeState("element", getSubscriptionState);
 
 log.info("element module registered (12 handlers)");
 
@@ -7,9 +7,13 @@
 // Imports
 // ============================================================================
 
+import type { RequestContext } from "../../../types/index.js";
 import type { TabId, FrameId } from "../../../types/identifiers.js";
+import { ErrorCode } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+import { sessions } from "../../../core/session-manager.js";
 
 // ============================================================================
 // Types
@@ -49,6 +53,7 @@ interface ContentResponse {
   elementId?: string;
   error?: string;
   code?: string;
+  data?: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -97,7 +102,7 @@ async function trySubscribe(
 
 async function handleSubscribe(
   params: unknown,
-  context: { tabId: TabId; frameId: FrameId }
+  context: RequestContext
 ): Promise<{ subscriptionId: string; elementId?: string }> {
   const { strategy, value, oneShot, timeout } = params as SubscribeParams;
   const tabId = context.tabId as number;
@@ -121,7 +126,7 @@ async function handleSubscribe(
       log.info(`subscribe response: ${JSON.stringify(response)}`);
 
       if (!response.success) {
-        throw new Error(response.error ?? "Subscribe failed");
+        throw WebDriverError.fromContentResponse(response, "Subscribe failed");
       }
 
       const result: { subscriptionId: string; elementId?: string } = {
@@ -132,8 +137,15 @@ async function handleSubscribe(
       }
       return result;
     } catch (err) {
+      if (err instanceof WebDriverError) {
+        throw err;
+      }
       const message = err instanceof Error ? err.message : String(err);
-      throw new Error(`Subscribe failed: ${message}`);
+      throw new WebDriverError(
+        ErrorCode.UnknownError,
+        `Subscribe failed: ${message}`,
+        { strategy, value }
+      );
     }
   }
 
@@ -141,6 +153,8 @@ async function handleSubscribe(
   return new Promise((resolve, reject) => {
     const subscriptionId = crypto.randomUUID();
 
+    // Settling by any path releases the abort listener, so long-lived
+    // signals do not collect listeners
     const activeSub: ActiveSubscription = {
       subscriptionId,
       strategy,
@@ -148,8 +162,14 @@ async function handleSubscribe(
       oneShot,
       tabId,
       frameId,
-      resolve,
-      reject,
+      resolve: (result) => {
+        context.signal.removeEventListener("abort", onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        context.signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
       resolved: false,
     };
 
@@ -172,15 +192,36 @@ async function handleSubscribe(
             )
             .catch(() => {});
 
-          const error = new Error(
-            `Element not found within ${timeout}ms: ${strategy}="${value}"`
+          activeSub.reject(
+            new WebDriverError(
+              ErrorCode.Timeout,
+              `Element not found within ${timeout}ms: ${strategy}="${value}"`,
+              { strategy, value, timeout }
+            )
           );
-          error.name = "timeout";
-          reject(error);
         }
       }, timeout);
     }
 
+    // Stop waiting if the request is cancelled or its deadline passes
+    const onAbort = (): void => {
+      if (activeSub.resolved) return;
+      log.info(`Subscription ${subscriptionId} aborted`);
+      activeSub.resolved = true;
+      removeSubscription(tabId, subscriptionId);
+
+      void browser.tabs
+        .sendMessage(
+          tabId,
+          { type: "ELEMENT_UNSUBSCRIBE", subscriptionId },
+          { frameId }
+        )
+        .catch(() => {});
+
+      activeSub.reject(context.signal.reason as Error);
+    };
+    context.signal.addEventListener("abort", onAbort, { once: true });
+
     // Track this subscription
     const subs = activeSubscriptions.get(tabId) ?? [];
     subs.push(activeSub);
@@ -325,13 +366,42 @@ browser.tabs.onRemoved.addListener((tabId) => {
         clearTimeout(sub.timeoutId);
       }
       if (!sub.resolved) {
-        sub.reject(new Error("Tab closed"));
+        sub.reject(
+          new WebDriverError(ErrorCode.NoSuchTab, "Tab closed", { tabId })
+        );
       }
     }
     activeSubscriptions.delete(tabId);
   }
 });
 
+// Snapshot of a session's pending subscriptions, replayed to the driver on resume
+function getSubscriptionState(sessionId: number): {
+  subscriptions: Array<{
+    subscriptionId: string;
+    strategy: string;
+    value: string;
+    tabId: number;
+    frameId: number;
+  }>;
+} {
+  const subscriptions = [];
+  for (const subs of activeSubscriptions.values()) {
+    for (const sub of subs) {
+      if (sub.resolved) continue;
+      if (sessions.forTab(sub.tabId)?.id !== sessionId) continue;
+      subscriptions.push({
+        subscriptionId: sub.subscriptionId,
+        strategy: sub.strategy,
+        value: sub.value,
+        tabId: sub.tabId,
+        frameId: sub.frameId,
+      });
+    }
+  }
+  return { subscriptions };
+}
+
 // Export for session to call when element.added event is received
 export function onElementAdded(
   tabId: number,
@@ -357,7 +427,7 @@ async function handleUnsubscribe(
   )) as ContentResponse;
 
   if (!response.success) {
-    throw new Error(response.error ?? "Unsubscribe failed");
+    throw WebDriverError.fromContentResponse(response, "Unsubscribe failed");
   }
 
   log.debug(`unsubscribed: id=${subscriptionId}`);
@@ -378,7 +448,11 @@ async function handleWatchRemoval(
   )) as ContentResponse;
 
   if (!response.success) {
-    throw new Error(response.error ?? "Watch removal failed");
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Watch removal failed",
+      ErrorCode.NoSuchElement
+    );
   }
 
   log.debug(`watching removal: elementId=${elementId}`);
@@ -399,7 +473,11 @@ async function handleUnwatchRemoval(
   )) as ContentResponse;
 
   if (!response.success) {
-    throw new Error(response.error ?? "Unwatch removal failed");
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Unwatch removal failed",
+      ErrorCode.NoSuchElement
+    );
   }
 
   log.debug(`stopped watching removal: elementId=${elementId}`);
@@ -428,7 +506,11 @@ async function handleWatchAttribute(
   )) as ContentResponse;
 
   if (!response.success) {
-    throw new Error(response.error ?? "Watch attribute failed");
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Watch attribute failed",
+      ErrorCode.NoSuchElement
+    );
   }
 
   log.debug(`watching attribute: elementId=${elementId}`);
@@ -449,7 +531,11 @@ async function handleUnwatchAttribute(
   )) as ContentResponse;
 
   if (!response.success) {
-    throw new Error(response.error ?? "Unwatch attribute failed");
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Unwatch attribute failed",
+      ErrorCode.NoSuchElement
+    );
   }
 
   log.debug(`stopped watching attribute: elementId=${elementId}`);
@@ -466,4 +552,5 @@ export {
   handleUnwatchRemoval,
   handleWatchAttribute,
   handleUnwatchAttribute,
+  getSubscriptionState,
 };
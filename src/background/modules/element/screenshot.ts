@@ -8,41 +8,59 @@
 // ============================================================================
 
 import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+import type { Attachment } from "../../../core/attachments.js";
+
+import type {
+  CaptureOptions,
+  DocumentCapture,
+  ImageFormat,
+  Rect,
+} from "../browsing-context/capture.js";
+import {
+  captureDocument,
+  encodeCanvas,
+  getFrameOffset,
+} from "../browsing-context/capture.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface CaptureScreenshotParams {
+/** Element region to capture. */
+interface ElementTarget {
   elementId: string;
-  format?: "png" | "jpeg";
+  /** Extra CSS pixels captured around the element. */
+  padding?: number;
+  /** Elements (same frame) painted over with `maskColor`. */
+  mask?: string[];
+  maskColor?: string;
+}
+
+interface CaptureScreenshotParams extends ElementTarget {
+  format?: ImageFormat;
   quality?: number;
 }
 
 interface CaptureScreenshotResult {
-  data: string;
-  clip?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    scale: number;
-  };
+  data: Attachment;
+  /** Captured rectangle in document CSS pixels. */
+  rect: Rect;
+  /** Device pixels per CSS pixel. */
+  scale: number;
 }
 
 interface ContentResponse {
   success: boolean;
-  bounds?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  bounds?: Rect;
+  masks?: Rect[];
   dpr?: number;
   error?: string;
   code?: string;
+  data?: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -55,83 +73,95 @@ const log = createLogger("Element.Screenshot");
 // Implementation
 // ============================================================================
 
-async function handleCaptureScreenshot(
-  params: unknown,
-  ctx: RequestContext
-): Promise<CaptureScreenshotResult> {
-  const {
-    elementId,
-    format = "png",
-    quality,
-  } = params as CaptureScreenshotParams;
-
-  if (!elementId) {
-    throw new Error("elementId is required");
-  }
-
-  log.debug(
-    `captureScreenshot: elementId=${elementId}, tab=${ctx.tabId}, format=${format}, quality=${quality ?? "default"}`
-  );
-  const start = Date.now();
+/**
+ * Captures an element, stitching tiles if it is larger than the viewport.
+ *
+ * @param ctx - Request context (element's tab and frame)
+ * @param target - Element, padding and masks
+ * @returns Stitched capture
+ * @throws WebDriverError (`no such element`) if the element is gone
+ */
+async function captureElement(
+  ctx: RequestContext,
+  target: ElementTarget
+): Promise<DocumentCapture> {
+  const { elementId, padding = 0, mask = [], maskColor } = target;
 
-  // Scroll element into view and get its bounds + device pixel ratio
+  // Scroll element into view and get its bounds in the frame's viewport
   const boundsResponse = (await browser.tabs.sendMessage(
     ctx.tabId,
     {
       type: "ELEMENT_GET_BOUNDS_AND_SCROLL",
       elementId,
+      maskElementIds: mask,
     },
     { frameId: ctx.frameId }
   )) as ContentResponse;
 
   if (!boundsResponse || !boundsResponse.success || !boundsResponse.bounds) {
-    const error = new Error(
-      boundsResponse?.error || "Failed to get element bounds"
+    throw WebDriverError.fromContentResponse(
+      boundsResponse,
+      "Failed to get element bounds",
+      ErrorCode.NoSuchElement
     );
-    error.name = boundsResponse?.code || "no such element";
-    throw error;
   }
 
   const bounds = boundsResponse.bounds;
-  const dpr = boundsResponse.dpr || 1;
-
-  // Capture the visible tab
-  const tab = await browser.tabs.get(ctx.tabId);
-  if (!tab.windowId) {
-    throw new Error("Tab has no window");
+  if (padding === 0 && (bounds.width <= 0 || bounds.height <= 0)) {
+    throw new WebDriverError(ErrorCode.InvalidArgument, "Element has no size", {
+      elementId,
+    });
   }
 
-  const options: browser.extensionTypes.ImageDetails = {
-    format: format === "jpeg" ? "jpeg" : "png",
+  // Move frame-viewport coordinates into the top-level viewport
+  const offset = await getFrameOffset(ctx.tabId, ctx.frameId);
+  const shift = (r: Rect): Rect => ({
+    ...r,
+    x: r.x + offset.x,
+    y: r.y + offset.y,
+  });
+
+  const clip = shift({
+    x: bounds.x - padding,
+    y: bounds.y - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
+  });
+
+  const options: CaptureOptions = {
+    signal: ctx.signal,
+    viewportRelative: true,
+    masks: (boundsResponse.masks ?? []).map(shift),
   };
+  if (maskColor !== undefined) options.maskColor = maskColor;
 
-  if (format === "jpeg" && quality !== undefined) {
-    options.quality = quality;
-  }
+  return captureDocument(ctx.tabId, clip, options);
+}
+
+async function handleCaptureScreenshot(
+  params: unknown,
+  ctx: RequestContext
+): Promise<CaptureScreenshotResult> {
+  const {
+    format = "png",
+    quality,
+    ...target
+  } = params as CaptureScreenshotParams;
 
-  const dataUrl = await browser.tabs.captureVisibleTab(tab.windowId, options);
+  log.debug(
+    `captureScreenshot: elementId=${target.elementId}, tab=${ctx.tabId}, format=${format}, quality=${quality ?? "default"}, padding=${target.padding ?? 0}, masks=${target.mask?.length ?? 0}`
+  );
 
-  // Extract base64 data
-  const base64Data = dataUrl.split(",")[1];
-  if (!base64Data) {
-    throw new Error("Failed to capture screenshot");
-  }
+  const capture = await captureElement(ctx, target);
 
-  const elapsed = Date.now() - start;
   log.debug(
-    `captureScreenshot: completed in ${elapsed}ms, bounds=${JSON.stringify(bounds)}, dpr=${dpr}`
+    `captureScreenshot: rect=${JSON.stringify(capture.rect)}, scale=${capture.scale}`
   );
 
-  // Return full screenshot with clip info for Rust to crop
   return {
-    data: base64Data,
-    clip: {
-      x: bounds.x,
-      y: bounds.y,
-      width: bounds.width,
-      height: bounds.height,
-      scale: dpr,
-    },
+    data: await encodeCanvas(capture.canvas, format, quality),
+    rect: capture.rect,
+    scale: capture.scale,
   };
 }
 
@@ -139,4 +169,5 @@ async function handleCaptureScreenshot(
 // Exports
 // ============================================================================
 
-export { handleCaptureScreenshot };
+export type { ElementTarget };
+export { handleCaptureScreenshot, captureElement };
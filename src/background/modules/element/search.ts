@@ -8,8 +8,10 @@
 // ============================================================================
 
 import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
 
 // ============================================================================
 // Types
@@ -33,6 +35,7 @@ interface ContentResponse {
   elementIds?: string[];
   error?: string;
   code?: string;
+  data?: Record<string, unknown>;
 }
 
 interface FindResult {
@@ -59,17 +62,9 @@ async function handleFind(
 ): Promise<FindResult> {
   const { strategy, value, parentId } = params as FindParams;
 
-  if (!strategy) {
-    throw new Error("strategy is required");
-  }
-  if (!value) {
-    throw new Error("value is required");
-  }
-
   log.debug(
     `find: strategy="${strategy}", value="${value}", parentId=${parentId ?? "none"}, tab=${ctx.tabId}, frame=${ctx.frameId}`
   );
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -78,13 +73,14 @@ async function handleFind(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Element not found");
-    error.name = response?.code || "no such element";
-    throw error;
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Element not found",
+      ErrorCode.NoSuchElement
+    );
   }
 
-  const elapsed = Date.now() - start;
-  log.debug(`find: completed in ${elapsed}ms, elementId=${response.elementId}`);
+  log.debug(`find: elementId=${response.elementId}`);
 
   return { elementId: response.elementId! };
 }
@@ -95,17 +91,9 @@ async function handleFindAll(
 ): Promise<FindAllResult> {
   const { strategy, value, parentId } = params as FindAllParams;
 
-  if (!strategy) {
-    throw new Error("strategy is required");
-  }
-  if (!value) {
-    throw new Error("value is required");
-  }
-
   log.debug(
     `findAll: strategy="${strategy}", value="${value}", parentId=${parentId ?? "none"}, tab=${ctx.tabId}, frame=${ctx.frameId}`
   );
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -114,15 +102,14 @@ async function handleFindAll(
   )) as ContentResponse;
 
   if (!response.success) {
-    const error = new Error(response.error || "Elements not found");
-    error.name = response.code || "no such element";
-    throw error;
+    throw WebDriverError.fromContentResponse(
+      response,
+      "Elements not found",
+      ErrorCode.NoSuchElement
+    );
   }
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `findAll: completed in ${elapsed}ms, count=${response.elementIds?.length ?? 0}`
-  );
+  log.debug(`findAll: count=${response.elementIds?.length ?? 0}`);
 
   return { elementIds: response.elementIds ?? [] };
 }
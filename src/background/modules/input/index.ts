@@ -9,6 +9,7 @@
 
 import { registry } from "../../../core/registry.js";
 import { createLogger } from "../../../core/logger.js";
+import type { ParamSchema } from "../../../types/index.js";
 
 import { handleTypeKey, handleTypeText } from "./keyboard.js";
 import {
@@ -24,17 +25,37 @@ import {
 
 const log = createLogger("Input");
 
+const MOUSE_SCHEMA: ParamSchema = {
+  elementId: { type: "string" },
+  x: { type: "number" },
+  y: { type: "number" },
+  button: { type: "integer", minimum: 0 },
+};
+
 // ============================================================================
 // Registration
 // ============================================================================
 
-registry.register("input.typeKey", handleTypeKey);
-registry.register("input.typeText", handleTypeText);
+registry.register("input.typeKey", handleTypeKey, {
+  elementId: { type: "string", required: true },
+  key: { type: "string", required: true },
+  code: { type: "string", required: true },
+  keyCode: { type: "integer", required: true },
+  printable: { type: "boolean", required: true },
+  ctrl: { type: "boolean" },
+  shift: { type: "boolean" },
+  alt: { type: "boolean" },
+  meta: { type: "boolean" },
+});
+registry.register("input.typeText", handleTypeText, {
+  elementId: { type: "string", required: true },
+  text: { type: "string", required: true },
+});
 
-registry.register("input.mouseClick", handleMouseClick);
-registry.register("input.mouseMove", handleMouseMove);
-registry.register("input.mouseDown", handleMouseDown);
-registry.register("input.mouseUp", handleMouseUp);
+registry.register("input.mouseClick", handleMouseClick, MOUSE_SCHEMA);
+registry.register("input.mouseMove", handleMouseMove, MOUSE_SCHEMA);
+registry.register("input.mouseDown", handleMouseDown, MOUSE_SCHEMA);
+registry.register("input.mouseUp", handleMouseUp, MOUSE_SCHEMA);
 
 log.info("input module registered (6 handlers)");
 
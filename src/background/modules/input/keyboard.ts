@@ -10,6 +10,7 @@
 import type { RequestContext } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
 
 // ============================================================================
 // Types
@@ -36,6 +37,7 @@ interface ContentResponse {
   success: boolean;
   error?: string;
   code?: string;
+  data?: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -64,13 +66,6 @@ async function handleTypeKey(
     meta = false,
   } = params as TypeKeyParams;
 
-  if (!elementId) {
-    throw new Error("elementId is required");
-  }
-  if (!key) {
-    throw new Error("key is required");
-  }
-
   const modifiers = [
     ctrl && "ctrl",
     shift && "shift",
@@ -82,7 +77,6 @@ async function handleTypeKey(
   log.debug(
     `typeKey: elementId=${elementId}, key="${key}", code="${code}", keyCode=${keyCode}, printable=${printable}, modifiers=${modifiers || "none"}, tab=${ctx.tabId}`
   );
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -102,13 +96,8 @@ async function handleTypeKey(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Failed to type key");
-    error.name = response?.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(response, "Failed to type key");
   }
-
-  const elapsed = Date.now() - start;
-  log.debug(`typeKey: completed in ${elapsed}ms`);
 }
 
 async function handleTypeText(
@@ -117,17 +106,9 @@ async function handleTypeText(
 ): Promise<void> {
   const { elementId, text } = params as TypeTextParams;
 
-  if (!elementId) {
-    throw new Error("elementId is required");
-  }
-  if (text === undefined || text === null) {
-    throw new Error("text is required");
-  }
-
   log.debug(
     `typeText: elementId=${elementId}, text="${text.substring(0, 20)}${text.length > 20 ? "..." : ""}" (${text.length} chars), tab=${ctx.tabId}`
   );
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -136,13 +117,8 @@ async function handleTypeText(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Failed to type text");
-    error.name = response?.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(response, "Failed to type text");
   }
-
-  const elapsed = Date.now() - start;
-  log.debug(`typeText: completed in ${elapsed}ms`);
 }
 
 // ============================================================================
@@ -8,8 +8,10 @@
 // ============================================================================
 
 import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
 
 // ============================================================================
 // Types
@@ -26,6 +28,7 @@ interface ContentResponse {
   success: boolean;
   error?: string;
   code?: string;
+  data?: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -45,12 +48,14 @@ async function handleMouseClick(
   const { elementId, x, y, button = 0 } = params as MouseParams;
 
   if (!elementId && (x === undefined || y === undefined)) {
-    throw new Error("Either elementId or coordinates (x, y) must be provided");
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      "Either elementId or coordinates (x, y) must be provided"
+    );
   }
 
   const target = elementId ?? `(${x}, ${y})`;
   log.debug(`mouseClick: ${target}, button=${button}, tab=${ctx.tabId}`);
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -59,13 +64,8 @@ async function handleMouseClick(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Failed to click");
-    error.name = response?.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(response, "Failed to click");
   }
-
-  const elapsed = Date.now() - start;
-  log.debug(`mouseClick: completed in ${elapsed}ms`);
 }
 
 async function handleMouseMove(
@@ -75,12 +75,14 @@ async function handleMouseMove(
   const { elementId, x, y } = params as MouseParams;
 
   if (!elementId && (x === undefined || y === undefined)) {
-    throw new Error("Either elementId or coordinates (x, y) must be provided");
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      "Either elementId or coordinates (x, y) must be provided"
+    );
   }
 
   const target = elementId ?? `(${x}, ${y})`;
   log.debug(`mouseMove: ${target}, tab=${ctx.tabId}`);
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -89,13 +91,8 @@ async function handleMouseMove(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Failed to move mouse");
-    error.name = response?.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(response, "Failed to move mouse");
   }
-
-  const elapsed = Date.now() - start;
-  log.debug(`mouseMove: completed in ${elapsed}ms`);
 }
 
 async function handleMouseDown(
@@ -105,12 +102,14 @@ async function handleMouseDown(
   const { elementId, x, y, button = 0 } = params as MouseParams;
 
   if (!elementId && (x === undefined || y === undefined)) {
-    throw new Error("Either elementId or coordinates (x, y) must be provided");
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      "Either elementId or coordinates (x, y) must be provided"
+    );
   }
 
   const target = elementId ?? `(${x}, ${y})`;
   log.debug(`mouseDown: ${target}, button=${button}, tab=${ctx.tabId}`);
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -119,13 +118,8 @@ async function handleMouseDown(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Failed to mousedown");
-    error.name = response?.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(response, "Failed to mousedown");
   }
-
-  const elapsed = Date.now() - start;
-  log.debug(`mouseDown: completed in ${elapsed}ms`);
 }
 
 async function handleMouseUp(
@@ -135,12 +129,14 @@ async function handleMouseUp(
   const { elementId, x, y, button = 0 } = params as MouseParams;
 
   if (!elementId && (x === undefined || y === undefined)) {
-    throw new Error("Either elementId or coordinates (x, y) must be provided");
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      "Either elementId or coordinates (x, y) must be provided"
+    );
   }
 
   const target = elementId ?? `(${x}, ${y})`;
   log.debug(`mouseUp: ${target}, button=${button}, tab=${ctx.tabId}`);
-  const start = Date.now();
 
   const response = (await browser.tabs.sendMessage(
     ctx.tabId,
@@ -149,13 +145,8 @@ async function handleMouseUp(
   )) as ContentResponse;
 
   if (!response || !response.success) {
-    const error = new Error(response?.error || "Failed to mouseup");
-    error.name = response?.code || "script error";
-    throw error;
+    throw WebDriverError.fromContentResponse(response, "Failed to mouseup");
   }
-
-  const elapsed = Date.now() - start;
-  log.debug(`mouseUp: completed in ${elapsed}ms`);
 }
 
 // ============================================================================
@@ -8,9 +8,11 @@
 // ============================================================================
 
 import { registry } from "../../../core/registry.js";
-import { session } from "../../../core/session.js";
+import { sessions } from "../../../core/session-manager.js";
+import type { Session } from "../../../core/session.js";
 import { createLogger } from "../../../core/logger.js";
-import { patternToRegex } from "../../../core/utils.js";
+import { headersToRecord, patternToRegex } from "../../../core/utils.js";
+import { Attachment } from "../../../core/attachments.js";
 import type { RequestContext } from "../../../types/index.js";
 import type { InterceptId } from "../../../types/identifiers.js";
 import { generateInterceptId } from "../../../types/identifiers.js";
@@ -48,10 +50,19 @@ interface InterceptConfig {
   interceptResponseBody: boolean;
 }
 
+interface Intercept {
+  sessionId: number;
+  config: InterceptConfig;
+}
+
+interface BlockRules {
+  patterns: string[];
+  regexes: RegExp[];
+}
+
 interface NetworkState {
-  blockPatterns: string[];
-  blockRegexes: RegExp[];
-  intercepts: Map<InterceptId, InterceptConfig>;
+  blockRules: Map<number, BlockRules>;
+  intercepts: Map<InterceptId, Intercept>;
   beforeRequestListener:
     | ((
         details: browser.webRequest._OnBeforeRequestDetails
@@ -87,8 +98,7 @@ const log = createLogger("Network");
 // ============================================================================
 
 const state: NetworkState = {
-  blockPatterns: [],
-  blockRegexes: [],
+  blockRules: new Map(),
   intercepts: new Map(),
   beforeRequestListener: null,
   beforeSendHeadersListener: null,
@@ -100,9 +110,18 @@ const state: NetworkState = {
 // Implementation - Helpers
 // ============================================================================
 
-function hasActiveIntercept(flag: keyof InterceptConfig): boolean {
-  for (const config of state.intercepts.values()) {
-    if (config[flag]) {
+/**
+ * Checks for an intercept with a flag set, in one session or any session.
+ */
+function hasActiveIntercept(
+  flag: keyof InterceptConfig,
+  sessionId?: number
+): boolean {
+  for (const intercept of state.intercepts.values()) {
+    if (sessionId !== undefined && intercept.sessionId !== sessionId) {
+      continue;
+    }
+    if (intercept.config[flag]) {
       return true;
     }
   }
@@ -141,20 +160,6 @@ function mapResourceType(type: browser.webRequest.ResourceType): string {
   return mapping[type] ?? "other";
 }
 
-function headersToRecord(
-  headers?: browser.webRequest.HttpHeaders
-): Record<string, string> {
-  const result: Record<string, string> = {};
-  if (headers) {
-    for (const header of headers) {
-      if (header.value !== undefined) {
-        result[header.name] = header.value;
-      }
-    }
-  }
-  return result;
-}
-
 function recordToHeaders(
   record: Record<string, string>
 ): browser.webRequest.HttpHeaders {
@@ -247,15 +252,20 @@ function createBeforeRequestListener(): (
   return (details) => {
     if (details.tabId < 0) return {};
 
-    const url = details.url;
+    // Only the session owning the tab sees or blocks its requests
+    const owner = sessions.forTab(details.tabId);
+    if (!owner) return {};
 
-    for (let i = 0; i < state.blockRegexes.length; i++) {
-      const regex = state.blockRegexes[i];
-      if (regex?.test(url)) {
-        log.debug(
-          `Blocked by rule: ${url} (pattern: ${state.blockPatterns[i]})`
-        );
-        return { cancel: true };
+    const url = details.url;
+    const rules = state.blockRules.get(owner.id);
+
+    if (rules) {
+      for (let i = 0; i < rules.regexes.length; i++) {
+        const regex = rules.regexes[i];
+        if (regex?.test(url)) {
+          log.debug(`Blocked by rule: ${url} (pattern: ${rules.patterns[i]})`);
+          return { cancel: true };
+        }
       }
     }
 
@@ -276,7 +286,10 @@ function createBeforeRequestListener(): (
       };
     }
 
-    if (hasActiveIntercept("interceptRequestBody") && session.isConnected()) {
+    if (
+      hasActiveIntercept("interceptRequestBody", owner.id) &&
+      owner.isConnected()
+    ) {
       const bodyEventParams = {
         requestId: details.requestId,
         url: details.url,
@@ -288,14 +301,14 @@ function createBeforeRequestListener(): (
       };
 
       log.debug(`Logging request body: ${details.method} ${details.url}`);
-      session.sendEvent(
+      owner.sendEvent(
         "network.requestBody",
         bodyEventParams as unknown as Record<string, unknown>
       );
     }
 
-    if (hasActiveIntercept("interceptRequests")) {
-      if (!session.isConnected()) {
+    if (hasActiveIntercept("interceptRequests", owner.id)) {
+      if (!owner.isConnected()) {
         log.warn("WebSocket not connected, allowing request");
         return {};
       }
@@ -312,7 +325,7 @@ function createBeforeRequestListener(): (
 
       log.debug(`Intercepting request: ${details.method} ${details.url}`);
 
-      return session
+      return owner
         .sendEventWithReply<RequestAction>(
           "network.beforeRequestSent",
           eventParams as unknown as Record<string, unknown>
@@ -339,11 +352,12 @@ function createBeforeSendHeadersListener(): (
   return (details) => {
     if (details.tabId < 0) return {};
 
-    if (!hasActiveIntercept("interceptRequestHeaders")) {
+    const owner = sessions.forTab(details.tabId);
+    if (!owner || !hasActiveIntercept("interceptRequestHeaders", owner.id)) {
       return {};
     }
 
-    if (!session.isConnected()) {
+    if (!owner.isConnected()) {
       log.warn("WebSocket not connected, allowing headers");
       return {};
     }
@@ -359,7 +373,7 @@ function createBeforeSendHeadersListener(): (
 
     log.debug(`Intercepting request headers: ${details.url}`);
 
-    return session
+    return owner
       .sendEventWithReply<HeadersAction>(
         "network.requestHeaders",
         eventParams as unknown as Record<string, unknown>
@@ -386,10 +400,14 @@ function createHeadersReceivedListener(): (
   return (details) => {
     if (details.tabId < 0) return {};
 
-    if (hasActiveIntercept("interceptResponseBody")) {
+    const owner = sessions.forTab(details.tabId);
+    if (!owner) return {};
+
+    if (hasActiveIntercept("interceptResponseBody", owner.id)) {
       const contentType = getContentType(details.responseHeaders);
       if (isTextContent(contentType)) {
         startResponseBodyFilter(
+          owner,
           details.requestId,
           details.url,
           details.tabId,
@@ -398,11 +416,11 @@ function createHeadersReceivedListener(): (
       }
     }
 
-    if (!hasActiveIntercept("interceptResponses")) {
+    if (!hasActiveIntercept("interceptResponses", owner.id)) {
       return {};
     }
 
-    if (!session.isConnected()) {
+    if (!owner.isConnected()) {
       log.warn("WebSocket not connected, allowing response");
       return {};
     }
@@ -421,7 +439,7 @@ function createHeadersReceivedListener(): (
       `Intercepting response headers: ${details.statusCode} ${details.url}`
     );
 
-    return session
+    return owner
       .sendEventWithReply<HeadersAction>(
         "network.responseHeaders",
         eventParams as unknown as Record<string, unknown>
@@ -451,6 +469,7 @@ function createHeadersReceivedListener(): (
 // ============================================================================
 
 function startResponseBodyFilter(
+  owner: Session,
   requestId: string,
   url: string,
   tabId: number,
@@ -477,19 +496,20 @@ function startResponseBodyFilter(
         offset += chunk.length;
       }
 
-      const originalBody = decoder.decode(combined);
-
-      if (session.isConnected()) {
+      if (owner.isConnected()) {
+        // Raw bytes when the driver takes binary frames, decoded text otherwise
         const eventParams = {
           requestId,
           url,
           tabId,
           frameId,
-          body: originalBody,
+          body: owner.usesBinaryAttachments()
+            ? Attachment.fromBytes(combined, "application/octet-stream")
+            : decoder.decode(combined),
           contentLength: totalLength,
         };
 
-        session
+        owner
           .sendEventWithReply<BodyAction>(
             "network.responseBody",
             eventParams as unknown as Record<string, unknown>
@@ -531,7 +551,7 @@ function startResponseBodyFilter(
 
 function updateListeners(): void {
   const needBeforeRequest =
-    state.blockPatterns.length > 0 ||
+    state.blockRules.size > 0 ||
     hasActiveIntercept("interceptRequests") ||
     hasActiveIntercept("interceptRequestBody");
 
@@ -608,7 +628,7 @@ interface RemoveInterceptParams {
 
 function handleAddIntercept(
   params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<{
   interceptId: string;
   interceptRequests: boolean;
@@ -635,10 +655,10 @@ function handleAddIntercept(
     interceptResponseBody,
   };
 
-  state.intercepts.set(interceptId, config);
+  state.intercepts.set(interceptId, { sessionId: ctx.sessionId, config });
 
   log.info(
-    `addIntercept: id=${interceptId}, requests=${interceptRequests}, reqHeaders=${interceptRequestHeaders}, reqBody=${interceptRequestBody}, responses=${interceptResponses}, resBody=${interceptResponseBody}`
+    `addIntercept: session=${ctx.sessionId}, id=${interceptId}, requests=${interceptRequests}, reqHeaders=${interceptRequestHeaders}, reqBody=${interceptRequestBody}, responses=${interceptResponses}, resBody=${interceptResponseBody}`
   );
 
   updateListeners();
@@ -655,29 +675,20 @@ function handleAddIntercept(
 
 function handleRemoveIntercept(
   params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<{ removed: boolean; interceptId: string }> {
   const { interceptId } = (params as RemoveInterceptParams) || {};
 
-  if (!interceptId) {
-    throw new Error("interceptId is required");
+  // Intercepts of other sessions are reported as not existing
+  const intercept = state.intercepts.get(interceptId as InterceptId);
+  const existed = intercept?.sessionId === ctx.sessionId;
+  if (existed) {
+    state.intercepts.delete(interceptId as InterceptId);
   }
 
-  const existed = state.intercepts.delete(interceptId as InterceptId);
-
   log.info(`removeIntercept: id=${interceptId}, existed=${existed}`);
 
-  if (!hasActiveIntercept("interceptResponseBody")) {
-    for (const filter of state.activeFilters.values()) {
-      try {
-        filter.disconnect();
-      } catch {
-        // Ignore
-      }
-    }
-    state.activeFilters.clear();
-  }
-
+  releaseResponseFilters();
   updateListeners();
 
   return Promise.resolve({ removed: existed, interceptId });
@@ -685,14 +696,22 @@ function handleRemoveIntercept(
 
 function handleSetBlockRules(
   params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<{ count: number; patterns: string[] }> {
   const { patterns = [] } = (params as { patterns?: string[] }) || {};
 
-  log.info(`setBlockRules: ${patterns.length} patterns`);
+  log.info(
+    `setBlockRules: session=${ctx.sessionId}, ${patterns.length} patterns`
+  );
 
-  state.blockPatterns = patterns;
-  state.blockRegexes = patterns.map(patternToRegex);
+  if (patterns.length > 0) {
+    state.blockRules.set(ctx.sessionId, {
+      patterns,
+      regexes: patterns.map(patternToRegex),
+    });
+  } else {
+    state.blockRules.delete(ctx.sessionId);
+  }
 
   for (const pattern of patterns) {
     log.debug(`  Block pattern: ${pattern}`);
@@ -700,22 +719,19 @@ function handleSetBlockRules(
 
   updateListeners();
 
-  return Promise.resolve({
-    count: state.blockPatterns.length,
-    patterns: state.blockPatterns,
-  });
+  return Promise.resolve({ count: patterns.length, patterns });
 }
 
 function handleClearBlockRules(
   _params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<{ cleared: number }> {
-  log.info("clearBlockRules");
+  log.info(`clearBlockRules: session=${ctx.sessionId}`);
 
-  const clearedCount = state.blockPatterns.length;
+  const clearedCount =
+    state.blockRules.get(ctx.sessionId)?.patterns.length ?? 0;
 
-  state.blockPatterns = [];
-  state.blockRegexes = [];
+  state.blockRules.delete(ctx.sessionId);
 
   updateListeners();
 
@@ -726,31 +742,78 @@ function handleClearBlockRules(
 // State Access
 // ============================================================================
 
-function getNetworkState(): {
+function getNetworkState(sessionId: number): {
   blockPatterns: string[];
   interceptCount: number;
   intercepts: Array<{ id: string; config: InterceptConfig }>;
 } {
-  const intercepts = Array.from(state.intercepts.entries()).map(
-    ([id, config]) => ({ id, config })
-  );
+  const intercepts = Array.from(state.intercepts.entries())
+    .filter(([, intercept]) => intercept.sessionId === sessionId)
+    .map(([id, { config }]) => ({ id, config }));
 
   return {
-    blockPatterns: [...state.blockPatterns],
-    interceptCount: state.intercepts.size,
+    blockPatterns: [...(state.blockRules.get(sessionId)?.patterns ?? [])],
+    interceptCount: intercepts.length,
     intercepts,
   };
 }
 
+// ============================================================================
+// Session Cleanup
+// ============================================================================
+
+function releaseResponseFilters(): void {
+  if (hasActiveIntercept("interceptResponseBody")) return;
+
+  for (const filter of state.activeFilters.values()) {
+    try {
+      filter.disconnect();
+    } catch {
+      // Ignore
+    }
+  }
+  state.activeFilters.clear();
+}
+
+sessions.onSessionEnded((sessionId) => {
+  for (const [id, intercept] of state.intercepts) {
+    if (intercept.sessionId === sessionId) {
+      state.intercepts.delete(id);
+    }
+  }
+  state.blockRules.delete(sessionId);
+
+  releaseResponseFilters();
+  updateListeners();
+});
+
 // ============================================================================
 // Registration
 // ============================================================================
 
-registry.register("network.addIntercept", handleAddIntercept);
-registry.register("network.removeIntercept", handleRemoveIntercept);
-registry.register("network.setBlockRules", handleSetBlockRules);
+registry.register("network.addIntercept", handleAddIntercept, {
+  interceptRequests: { type: "boolean" },
+  interceptRequestHeaders: { type: "boolean" },
+  interceptRequestBody: { type: "boolean" },
+  interceptResponses: { type: "boolean" },
+  interceptResponseBody: { type: "boolean" },
+});
+registry.register("network.removeIntercept", handleRemoveIntercept, {
+  interceptId: { type: "string", required: true },
+});
+registry.register("network.setBlockRules", handleSetBlockRules, {
+  patterns: { type: "array", items: { type: "string" } },
+});
 registry.register("network.clearBlockRules", handleClearBlockRules);
 
+registry.registerEvent("network.beforeRequestSent");
+registry.registerEvent("network.requestHeaders");
+registry.registerEvent("network.requestBody");
+registry.registerEvent("network.responseHeaders");
+registry.registerEvent("network.responseBody");
+
+sessions.registerResumeState("network", getNetworkState);
+
 log.info("network module registered (4 handlers)");
 
 // ============================================================================
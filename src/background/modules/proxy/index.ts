@@ -1,5 +1,8 @@
 /**
  * @fileoverview Proxy module - per-tab and per-window proxy configuration.
+ *
+ * The window proxy applies to every tab owned by the session that set it.
+ * Tab proxies are released when their tab closes or their session ends.
  * @module modules/proxy
  */
 
@@ -8,8 +11,9 @@
 // ============================================================================
 
 import { registry } from "../../../core/registry.js";
+import { sessions } from "../../../core/session-manager.js";
 import { createLogger } from "../../../core/logger.js";
-import type { RequestContext } from "../../../types/index.js";
+import type { ParamSchema, RequestContext } from "../../../types/index.js";
 
 // ============================================================================
 // Types
@@ -45,9 +49,17 @@ interface SetProxyParams {
   proxyDns?: boolean;
 }
 
+interface TabProxy {
+  /** Session that set the proxy. */
+  sessionId: number;
+  config: ProxyConfig;
+}
+
 interface ProxyState {
-  windowProxy: ProxyConfig | null;
-  tabProxies: Map<number, ProxyConfig>;
+  /** Window proxies keyed by session ID. */
+  windowProxies: Map<number, ProxyConfig>;
+  /** Tab proxies keyed by tab ID. */
+  tabProxies: Map<number, TabProxy>;
   httpCredentials: Map<string, { username: string; password: string }>;
   listenerActive: boolean;
   authListenerActive: boolean;
@@ -59,12 +71,25 @@ interface ProxyState {
 
 const log = createLogger("Proxy");
 
+const SET_PROXY_SCHEMA: ParamSchema = {
+  type: {
+    type: "string",
+    required: true,
+    enum: ["direct", "http", "https", "socks4", "socks", "socks5"],
+  },
+  host: { type: "string", required: true },
+  port: { type: "integer", required: true, minimum: 1, maximum: 65535 },
+  username: { type: "string" },
+  password: { type: "string" },
+  proxyDns: { type: "boolean" },
+};
+
 // ============================================================================
 // State
 // ============================================================================
 
 const state: ProxyState = {
-  windowProxy: null,
+  windowProxies: new Map(),
   tabProxies: new Map(),
   httpCredentials: new Map(),
   listenerActive: false,
@@ -164,7 +189,7 @@ function handleProxyRequest(
     return { type: "direct" };
   }
 
-  const tabProxy = state.tabProxies.get(tabId);
+  const tabProxy = state.tabProxies.get(tabId)?.config;
   if (tabProxy) {
     log.debug(
       `Using tab proxy for tab ${tabId}: ${tabProxy.type}://${tabProxy.host}:${tabProxy.port}`
@@ -172,11 +197,13 @@ function handleProxyRequest(
     return configToProxyInfo(tabProxy);
   }
 
-  if (state.windowProxy) {
+  const owner = sessions.forTab(tabId);
+  const windowProxy = owner ? state.windowProxies.get(owner.id) : undefined;
+  if (windowProxy) {
     log.debug(
-      `Using window proxy for tab ${tabId}: ${state.windowProxy.type}://${state.windowProxy.host}:${state.windowProxy.port}`
+      `Using window proxy for tab ${tabId}: ${windowProxy.type}://${windowProxy.host}:${windowProxy.port}`
     );
-    return configToProxyInfo(state.windowProxy);
+    return configToProxyInfo(windowProxy);
   }
 
   return { type: "direct" };
@@ -215,7 +242,7 @@ function handleAuthRequired(
 // ============================================================================
 
 function updateListeners(): void {
-  const needProxy = state.windowProxy !== null || state.tabProxies.size > 0;
+  const needProxy = state.windowProxies.size > 0 || state.tabProxies.size > 0;
   const needAuth = state.httpCredentials.size > 0;
 
   if (needProxy && !state.listenerActive) {
@@ -251,21 +278,23 @@ function updateListeners(): void {
 
 function handleSetWindowProxy(
   params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<{ active: boolean; type: string; host: string; port: number }> {
   const { type, host, port, username, password, proxyDns } =
     params as SetProxyParams;
 
-  log.info(`setWindowProxy: ${type}://${host}:${port}`);
+  log.info(
+    `setWindowProxy: session=${ctx.sessionId}, ${type}://${host}:${port}`
+  );
 
-  removeHttpCredentials(state.windowProxy);
+  removeHttpCredentials(state.windowProxies.get(ctx.sessionId) ?? null);
 
   const config: ProxyConfig = { type: normalizeProxyType(type), host, port };
   if (username !== undefined) config.username = username;
   if (password !== undefined) config.password = password;
   if (proxyDns !== undefined) config.proxyDns = proxyDns;
 
-  state.windowProxy = config;
+  state.windowProxies.set(ctx.sessionId, config);
   storeHttpCredentials(config);
   updateListeners();
 
@@ -279,13 +308,14 @@ function handleSetWindowProxy(
 
 function handleClearWindowProxy(
   _params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<{ cleared: boolean }> {
-  log.info("clearWindowProxy");
+  log.info(`clearWindowProxy: session=${ctx.sessionId}`);
 
-  const wasActive = state.windowProxy !== null;
-  removeHttpCredentials(state.windowProxy);
-  state.windowProxy = null;
+  const oldConfig = state.windowProxies.get(ctx.sessionId);
+  const wasActive = oldConfig !== undefined;
+  removeHttpCredentials(oldConfig ?? null);
+  state.windowProxies.delete(ctx.sessionId);
   updateListeners();
 
   return Promise.resolve({ cleared: wasActive });
@@ -307,7 +337,7 @@ function handleSetTabProxy(
 
   log.info(`setTabProxy: tab=${tabId}, ${type}://${host}:${port}`);
 
-  const oldConfig = state.tabProxies.get(tabId);
+  const oldConfig = state.tabProxies.get(tabId)?.config;
   removeHttpCredentials(oldConfig ?? null);
 
   const config: ProxyConfig = { type: normalizeProxyType(type), host, port };
@@ -315,7 +345,7 @@ function handleSetTabProxy(
   if (password !== undefined) config.password = password;
   if (proxyDns !== undefined) config.proxyDns = proxyDns;
 
-  state.tabProxies.set(tabId, config);
+  state.tabProxies.set(tabId, { sessionId: ctx.sessionId, config });
   storeHttpCredentials(config);
   updateListeners();
 
@@ -336,7 +366,7 @@ function handleClearTabProxy(
 
   log.info(`clearTabProxy: tab=${tabId}`);
 
-  const oldConfig = state.tabProxies.get(tabId);
+  const oldConfig = state.tabProxies.get(tabId)?.config;
   const wasActive = oldConfig !== undefined;
 
   removeHttpCredentials(oldConfig ?? null);
@@ -347,11 +377,11 @@ function handleClearTabProxy(
 }
 
 // ============================================================================
-// Tab Cleanup
+// Tab and Session Cleanup
 // ============================================================================
 
 browser.tabs.onRemoved.addListener((tabId) => {
-  const config = state.tabProxies.get(tabId);
+  const config = state.tabProxies.get(tabId)?.config;
   if (config) {
     log.debug(`Cleaning up proxy for closed tab ${tabId}`);
     removeHttpCredentials(config);
@@ -360,20 +390,38 @@ browser.tabs.onRemoved.addListener((tabId) => {
   }
 });
 
+sessions.onSessionEnded((sessionId) => {
+  const config = state.windowProxies.get(sessionId);
+  if (config) {
+    log.debug(`Cleaning up window proxy for ended session ${sessionId}`);
+    removeHttpCredentials(config);
+    state.windowProxies.delete(sessionId);
+  }
+
+  for (const [tabId, tabProxy] of state.tabProxies) {
+    if (tabProxy.sessionId !== sessionId) continue;
+    log.debug(`Cleaning up proxy for tab ${tabId} of ended session`);
+    removeHttpCredentials(tabProxy.config);
+    state.tabProxies.delete(tabId);
+  }
+
+  updateListeners();
+});
+
 // ============================================================================
 // State Access
 // ============================================================================
 
-function getProxyState(): {
+function getProxyState(sessionId: number): {
   windowProxy: ProxyConfig | null;
   tabProxies: Array<{ tabId: number; config: ProxyConfig }>;
   listenerActive: boolean;
 } {
   return {
-    windowProxy: state.windowProxy,
-    tabProxies: Array.from(state.tabProxies.entries()).map(
-      ([tabId, config]) => ({ tabId, config })
-    ),
+    windowProxy: state.windowProxies.get(sessionId) ?? null,
+    tabProxies: Array.from(state.tabProxies.entries())
+      .filter(([, tabProxy]) => tabProxy.sessionId === sessionId)
+      .map(([tabId, { config }]) => ({ tabId, config })),
     listenerActive: state.listenerActive,
   };
 }
@@ -382,11 +430,17 @@ function getProxyState(): {
 // Registration
 // ============================================================================
 
-registry.register("proxy.setWindowProxy", handleSetWindowProxy);
+registry.register(
+  "proxy.setWindowProxy",
+  handleSetWindowProxy,
+  SET_PROXY_SCHEMA
+);
 registry.register("proxy.clearWindowProxy", handleClearWindowProxy);
-registry.register("proxy.setTabProxy", handleSetTabProxy);
+registry.register("proxy.setTabProxy", handleSetTabProxy, SET_PROXY_SCHEMA);
 registry.register("proxy.clearTabProxy", handleClearTabProxy);
 
+sessions.registerResumeState("proxy", getProxyState);
+
 log.info("proxy module registered (4 handlers)");
 
 // ============================================================================
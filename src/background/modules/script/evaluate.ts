@@ -1,5 +1,10 @@
 /**
  * @fileoverview Script evaluation handlers.
+ *
+ * Scripts are run by the frame's content script in either world, which
+ * resolves element and handle arguments and serializes results as remote
+ * values.
+ *
  * @module modules/script/evaluate
  */
 
@@ -10,20 +15,53 @@
 import type { RequestContext } from "../../../types/index.js";
 
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+
+import { trackHandle } from "./handles.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface EvaluateParams {
+/** `main` runs with the page's globals, `isolated` with the content script's. */
+type ScriptWorld = "main" | "isolated";
+
+interface ResultParams {
+  /** Container levels of the result to serialize (default 10). */
+  maxDepth?: number;
+  /** `root` retains the result object and returns its `handle`. */
+  resultOwnership?: "root" | "none";
+}
+
+interface EvaluateParams extends ResultParams {
   script: string;
   args?: unknown[];
+  world?: ScriptWorld;
+}
+
+interface CallFunctionParams extends ResultParams {
+  functionDeclaration: string;
+  /** `this` value; may be a `{ handle }` or element reference. */
+  this?: unknown;
+  args?: unknown[];
+  /** Await a returned promise (default true). */
+  awaitPromise?: boolean;
+  world?: ScriptWorld;
 }
 
 interface EvaluateResult {
+  /** Result as a BiDi-style remote value. */
   value: unknown;
 }
 
+interface EvaluateResponse {
+  success: boolean;
+  value?: unknown;
+  error?: string;
+  code?: string;
+  data?: Record<string, unknown>;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -34,94 +72,126 @@ const log = createLogger("Script.Evaluate");
 // Implementation
 // ============================================================================
 
-async function handleEvaluate(
-  params: unknown,
-  ctx: RequestContext
+/**
+ * Runs a script message in the target frame and records a returned handle.
+ *
+ * @param ctx - Request context (target frame)
+ * @param message - SCRIPT_EVALUATE or SCRIPT_CALL_FUNCTION message
+ * @param fallbackMessage - Error message if the frame returns nothing
+ * @returns Serialized result
+ */
+async function runInFrame(
+  ctx: RequestContext,
+  message: Record<string, unknown>,
+  fallbackMessage: string
 ): Promise<EvaluateResult> {
-  const { script, args = [] } = params as EvaluateParams;
+  const response = (await browser.tabs.sendMessage(ctx.tabId, message, {
+    frameId: ctx.frameId,
+  })) as EvaluateResponse | undefined;
 
-  if (!script) {
-    throw new Error("Script is required");
+  if (!response || !response.success) {
+    throw WebDriverError.fromContentResponse(response, fallbackMessage);
   }
 
-  log.debug(
-    `evaluate: tab=${ctx.tabId}, frame=${ctx.frameId}, scriptLength=${script.length}, args=${args.length}`
-  );
-  const start = Date.now();
+  trackHandle(response.value, ctx);
 
-  const results = await browser.scripting.executeScript({
-    target: { tabId: ctx.tabId, frameIds: [ctx.frameId] },
-    func: (code: string, scriptArgs: unknown[]) => {
-      const fn = new Function("...args", code);
-      return fn(...scriptArgs);
-    },
-    args: [script, args],
-    world: "MAIN",
-  });
-
-  const result = results[0];
-  if (!result) {
-    throw new Error("Script execution failed: no result");
-  }
+  return { value: response.value };
+}
 
-  if ("error" in result) {
-    const error = result.error as { message?: string };
-    throw new Error(`Script error: ${error.message || "Unknown error"}`);
-  }
+/**
+ * Evaluates a script through the content script of the target frame.
+ *
+ * @param ctx - Request context (target frame)
+ * @param params - Script, arguments and world
+ * @param isAsync - Await the script's result
+ * @returns Serialized result
+ * @throws WebDriverError (`no such element` / `stale element` /
+ *   `no such handle`) for a bad reference, `script error` if the script
+ *   throws
+ */
+async function evaluate(
+  ctx: RequestContext,
+  params: EvaluateParams,
+  isAsync: boolean
+): Promise<EvaluateResult> {
+  const {
+    script,
+    args = [],
+    world = "main",
+    maxDepth,
+    resultOwnership,
+  } = params;
 
-  const elapsed = Date.now() - start;
   log.debug(
-    `evaluate: completed in ${elapsed}ms, result type=${typeof result.result}`
+    `${isAsync ? "evaluateAsync" : "evaluate"}: tab=${ctx.tabId}, frame=${ctx.frameId}, world=${world}, scriptLength=${script.length}, args=${args.length}`
   );
 
-  return { value: result.result };
+  return runInFrame(
+    ctx,
+    {
+      type: "SCRIPT_EVALUATE",
+      script,
+      args,
+      async: isAsync,
+      world,
+      maxDepth,
+      resultOwnership,
+    },
+    `${isAsync ? "Async script" : "Script"} execution failed: no result`
+  );
+}
+
+async function handleEvaluate(
+  params: unknown,
+  ctx: RequestContext
+): Promise<EvaluateResult> {
+  return evaluate(ctx, params as EvaluateParams, false);
 }
 
 async function handleEvaluateAsync(
   params: unknown,
   ctx: RequestContext
 ): Promise<EvaluateResult> {
-  const { script, args = [] } = params as EvaluateParams;
+  return evaluate(ctx, params as EvaluateParams, true);
+}
 
-  if (!script) {
-    throw new Error("Script is required");
-  }
+async function handleCallFunction(
+  params: unknown,
+  ctx: RequestContext
+): Promise<EvaluateResult> {
+  const {
+    functionDeclaration,
+    this: thisArg,
+    args = [],
+    awaitPromise = true,
+    world = "main",
+    maxDepth,
+    resultOwnership,
+  } = params as CallFunctionParams;
 
   log.debug(
-    `evaluateAsync: tab=${ctx.tabId}, frame=${ctx.frameId}, scriptLength=${script.length}, args=${args.length}`
+    `callFunction: tab=${ctx.tabId}, frame=${ctx.frameId}, world=${world}, declarationLength=${functionDeclaration.length}, args=${args.length}`
   );
-  const start = Date.now();
-
-  const results = await browser.scripting.executeScript({
-    target: { tabId: ctx.tabId, frameIds: [ctx.frameId] },
-    func: (async (code: string, scriptArgs: unknown[]) => {
-      const fn = new Function("...args", `return (async () => { ${code} })()`);
-      return await fn(...scriptArgs);
-    }) as (code: string, scriptArgs: unknown[]) => void,
-    args: [script, args],
-    world: "MAIN",
-  });
-
-  const result = results[0];
-  if (!result) {
-    throw new Error("Async script execution failed: no result");
-  }
 
-  if ("error" in result) {
-    const error = result.error as { message?: string };
-    throw new Error(`Script error: ${error.message || "Unknown error"}`);
-  }
-
-  const elapsed = Date.now() - start;
-  log.debug(
-    `evaluateAsync: completed in ${elapsed}ms, result type=${typeof result.result}`
+  return runInFrame(
+    ctx,
+    {
+      type: "SCRIPT_CALL_FUNCTION",
+      functionDeclaration,
+      this: thisArg,
+      args,
+      awaitPromise,
+      world,
+      maxDepth,
+      resultOwnership,
+    },
+    "Function call failed: no result"
   );
-
-  return { value: result.result };
 }
 
 // ============================================================================
 // Exports
 // ============================================================================
 
-export { handleEvaluate, handleEvaluateAsync };
+export type { ScriptWorld };
+export { handleEvaluate, handleEvaluateAsync, handleCallFunction };
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Remote object handles for script module.
+ *
+ * Objects retained by `resultOwnership: "root"` live in the content script of
+ * their frame. The background records which frame and session own each
+ * handle so `script.disown` can release them and navigations can report the
+ * handles they invalidated.
+ *
+ * @module modules/script/handles
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { RequestContext } from "../../../types/index.js";
+
+import { createLogger } from "../../../core/logger.js";
+import { sessions } from "../../../core/session-manager.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface HandleRecord {
+  tabId: number;
+  frameId: number;
+  /** Session that created the handle. */
+  sessionId: number;
+}
+
+interface DisownParams {
+  handles: string[];
+}
+
+interface DisownResult {
+  /** Handles that were known and released. */
+  released: number;
+}
+
+type InvalidationReason = "navigation" | "frameDetached" | "tabClosed";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("Script.Handles");
+
+// ============================================================================
+// State
+// ============================================================================
+
+const handleRecords = new Map<string, HandleRecord>();
+
+// ============================================================================
+// Implementation - Tracking
+// ============================================================================
+
+/**
+ * Records the handle of a serialized result, if it has one.
+ *
+ * @param value - Remote value returned by the content script
+ * @param ctx - Request context (frame holding the object)
+ */
+function trackHandle(value: unknown, ctx: RequestContext): void {
+  if (typeof value !== "object" || value === null) return;
+  const handle = (value as { handle?: unknown }).handle;
+  if (typeof handle !== "string") return;
+
+  handleRecords.set(handle, {
+    tabId: ctx.tabId,
+    frameId: ctx.frameId,
+    sessionId: ctx.sessionId,
+  });
+}
+
+/**
+ * Forgets handles matching a predicate and reports them to their sessions,
+ * grouped by frame.
+ */
+function invalidateHandles(
+  tabId: number,
+  matches: (record: HandleRecord) => boolean,
+  reason: InvalidationReason
+): void {
+  const byFrame = new Map<number, string[]>();
+  for (const [handle, record] of handleRecords) {
+    if (record.tabId !== tabId || !matches(record)) continue;
+    handleRecords.delete(handle);
+
+    const frameHandles = byFrame.get(record.frameId) ?? [];
+    frameHandles.push(handle);
+    byFrame.set(record.frameId, frameHandles);
+  }
+  if (byFrame.size === 0) return;
+
+  const owner = sessions.forTab(tabId);
+  for (const [frameId, handles] of byFrame) {
+    log.debug(
+      `handlesInvalidated: tab=${tabId}, frame=${frameId}, count=${handles.length}, reason=${reason}`
+    );
+
+    if (owner?.isConnected()) {
+      owner.sendEvent("script.handlesInvalidated", {
+        tabId,
+        frameId,
+        handles,
+        reason,
+        timestamp: Date.now(),
+      });
+    }
+  }
+}
+
+/**
+ * Invalidates handles of frames that no longer exist in a tab.
+ */
+async function invalidateDetachedFrames(tabId: number): Promise<void> {
+  let frames: browser.webNavigation._GetAllFramesReturnDetails[] | null;
+  try {
+    frames = await browser.webNavigation.getAllFrames({ tabId });
+  } catch {
+    frames = null;
+  }
+
+  const live = new Set((frames ?? []).map((frame) => frame.frameId));
+  invalidateHandles(
+    tabId,
+    (record) => !live.has(record.frameId),
+    "frameDetached"
+  );
+}
+
+function onCommitted(details: browser.webNavigation._OnCommittedDetails): void {
+  const { tabId, frameId } = details;
+
+  // A new top-level document replaces every frame of the tab
+  invalidateHandles(
+    tabId,
+    (record) => frameId === 0 || record.frameId === frameId,
+    "navigation"
+  );
+
+  // Frames inside a navigated subframe are gone as well
+  if (frameId !== 0) void invalidateDetachedFrames(tabId);
+}
+
+function onTabRemoved(tabId: number): void {
+  invalidateHandles(tabId, () => true, "tabClosed");
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+async function handleDisown(
+  params: unknown,
+  ctx: RequestContext
+): Promise<DisownResult> {
+  const { handles } = params as DisownParams;
+
+  log.debug(`disown: handles=${handles.length}, session=${ctx.sessionId}`);
+
+  // Unknown handles are ignored, as in WebDriver BiDi
+  const byFrame = new Map<string, { record: HandleRecord; ids: string[] }>();
+  for (const handle of handles) {
+    const record = handleRecords.get(handle);
+    if (!record || record.sessionId !== ctx.sessionId) continue;
+    handleRecords.delete(handle);
+
+    const key = `${record.tabId}:${record.frameId}`;
+    const group = byFrame.get(key) ?? { record, ids: [] };
+    group.ids.push(handle);
+    byFrame.set(key, group);
+  }
+
+  let released = 0;
+  for (const { record, ids } of byFrame.values()) {
+    released += ids.length;
+    try {
+      await browser.tabs.sendMessage(
+        record.tabId,
+        { type: "SCRIPT_DISOWN", handles: ids },
+        { frameId: record.frameId }
+      );
+    } catch {
+      // Document already unloaded; its handles are gone with it
+    }
+  }
+
+  return { released };
+}
+
+// ============================================================================
+// Implementation - Initialization
+// ============================================================================
+
+function initHandles(): void {
+  browser.webNavigation.onCommitted.addListener(onCommitted);
+  browser.tabs.onRemoved.addListener(onTabRemoved);
+}
+
+// Handles of an ended session are released with best effort
+sessions.onSessionEnded((sessionId) => {
+  for (const [handle, record] of handleRecords) {
+    if (record.sessionId !== sessionId) continue;
+    handleRecords.delete(handle);
+    browser.tabs
+      .sendMessage(
+        record.tabId,
+        { type: "SCRIPT_DISOWN", handles: [handle] },
+        { frameId: record.frameId }
+      )
+      .catch(() => {
+        // Ignore - tab or document is gone
+      });
+  }
+});
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { trackHandle, handleDisown, initHandles };
@@ -8,13 +8,21 @@
 // ============================================================================
 
 import { registry } from "../../../core/registry.js";
+import { sessions } from "../../../core/session-manager.js";
 import { createLogger } from "../../../core/logger.js";
+import type { ParamSchema } from "../../../types/index.js";
 
-import { handleEvaluate, handleEvaluateAsync } from "./evaluate.js";
+import {
+  handleEvaluate,
+  handleEvaluateAsync,
+  handleCallFunction,
+} from "./evaluate.js";
+import { handleDisown, initHandles } from "./handles.js";
 import {
   handleAddPreloadScript,
   handleRemovePreloadScript,
   getPreloadScriptCount,
+  getPreloadState,
 } from "./preload.js";
 
 // ============================================================================
@@ -23,17 +31,60 @@ import {
 
 const log = createLogger("Script");
 
+const WORLD_SCHEMA: ParamSchema = {
+  world: { type: "string", enum: ["main", "isolated"] },
+};
+
+const SERIALIZATION_SCHEMA: ParamSchema = {
+  maxDepth: { type: "integer", minimum: 0 },
+  resultOwnership: { type: "string", enum: ["root", "none"] },
+};
+
 // ============================================================================
 // Registration
 // ============================================================================
 
-registry.register("script.evaluate", handleEvaluate);
-registry.register("script.evaluateAsync", handleEvaluateAsync);
+registry.register("script.evaluate", handleEvaluate, {
+  script: { type: "string", required: true },
+  args: { type: "array", items: { type: "any" } },
+  ...WORLD_SCHEMA,
+  ...SERIALIZATION_SCHEMA,
+});
+registry.register("script.evaluateAsync", handleEvaluateAsync, {
+  script: { type: "string", required: true },
+  args: { type: "array", items: { type: "any" } },
+  ...WORLD_SCHEMA,
+  ...SERIALIZATION_SCHEMA,
+});
+
+registry.register("script.callFunction", handleCallFunction, {
+  functionDeclaration: { type: "string", required: true },
+  this: { type: "any" },
+  args: { type: "array", items: { type: "any" } },
+  awaitPromise: { type: "boolean" },
+  ...WORLD_SCHEMA,
+  ...SERIALIZATION_SCHEMA,
+});
+registry.register("script.disown", handleDisown, {
+  handles: { type: "array", required: true, items: { type: "string" } },
+});
+
+registry.register("script.addPreloadScript", handleAddPreloadScript, {
+  script: { type: "string", required: true },
+  matches: { type: "array", items: { type: "string" } },
+  ...WORLD_SCHEMA,
+});
+registry.register("script.removePreloadScript", handleRemovePreloadScript, {
+  scriptId: { type: "string", required: true },
+});
+
+registry.registerEvent("script.handlesInvalidated");
+
+sessions.registerResumeState("script", getPreloadState);
 
-registry.register("script.addPreloadScript", handleAddPreloadScript);
-registry.register("script.removePreloadScript", handleRemovePreloadScript);
+initHandles();
 
-log.info("script module registered (4 handlers)");
+log.info("script module registered (6 handlers + events)");
 
 // ============================================================================
 // Exports
@@ -42,7 +93,10 @@ log.info("script module registered (4 handlers)");
 export {
   handleEvaluate,
   handleEvaluateAsync,
+  handleCallFunction,
+  handleDisown,
   handleAddPreloadScript,
   handleRemovePreloadScript,
   getPreloadScriptCount,
+  getPreloadState,
 };
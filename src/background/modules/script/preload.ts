@@ -9,9 +9,13 @@
 
 import type { RequestContext } from "../../../types/index.js";
 import type { ScriptId } from "../../../types/identifiers.js";
+import type { ScriptWorld } from "./evaluate.js";
 
 import { generateScriptId } from "../../../types/identifiers.js";
+import { ErrorCode } from "../../../types/index.js";
 import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+import { sessions } from "../../../core/session-manager.js";
 
 // ============================================================================
 // Types
@@ -20,6 +24,7 @@ import { createLogger } from "../../../core/logger.js";
 interface AddPreloadScriptParams {
   script: string;
   matches?: string[];
+  world?: ScriptWorld;
 }
 
 interface AddPreloadScriptResult {
@@ -30,6 +35,14 @@ interface RemovePreloadScriptParams {
   scriptId: ScriptId;
 }
 
+interface PreloadRegistration {
+  registrationId: string;
+  matches: string[];
+  world: ScriptWorld;
+  /** Session that added the script. */
+  sessionId: number;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -40,7 +53,7 @@ const log = createLogger("Script.Preload");
 // State
 // ============================================================================
 
-const registeredScripts = new Map<ScriptId, string>();
+const registeredScripts = new Map<ScriptId, PreloadRegistration>();
 
 // ============================================================================
 // Implementation
@@ -48,21 +61,20 @@ const registeredScripts = new Map<ScriptId, string>();
 
 async function handleAddPreloadScript(
   params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<AddPreloadScriptResult> {
-  const { script, matches = ["<all_urls>"] } = params as AddPreloadScriptParams;
-
-  if (!script) {
-    throw new Error("Script is required");
-  }
+  const {
+    script,
+    matches = ["<all_urls>"],
+    world = "main",
+  } = params as AddPreloadScriptParams;
 
   const scriptId = generateScriptId();
   const registrationId = `preload-${scriptId}`;
 
   log.debug(
-    `addPreloadScript: scriptId=${scriptId}, scriptLength=${script.length}, matches=${matches.join(",")}`
+    `addPreloadScript: scriptId=${scriptId}, world=${world}, scriptLength=${script.length}, matches=${matches.join(",")}`
   );
-  const start = Date.now();
 
   const wrappedScript = `(function() { ${script} })();`;
 
@@ -72,51 +84,80 @@ async function handleAddPreloadScript(
       matches,
       js: [{ code: wrappedScript }] as unknown as string[],
       runAt: "document_start",
-      world: "MAIN",
+      world: world === "isolated" ? "ISOLATED" : "MAIN",
       allFrames: true,
     },
   ]);
 
-  registeredScripts.set(scriptId, registrationId);
+  registeredScripts.set(scriptId, {
+    registrationId,
+    matches,
+    world,
+    sessionId: ctx.sessionId,
+  });
 
-  const elapsed = Date.now() - start;
-  log.debug(
-    `addPreloadScript: completed in ${elapsed}ms, scriptId=${scriptId}`
-  );
+  log.debug(`addPreloadScript: scriptId=${scriptId}`);
 
   return { scriptId };
 }
 
 async function handleRemovePreloadScript(
   params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<void> {
   const { scriptId } = params as RemovePreloadScriptParams;
 
-  if (!scriptId) {
-    throw new Error("scriptId is required");
-  }
-
-  const registrationId = registeredScripts.get(scriptId);
-  if (!registrationId) {
-    throw new Error(`No such script: ${scriptId}`);
+  const registration = registeredScripts.get(scriptId);
+  if (!registration || registration.sessionId !== ctx.sessionId) {
+    throw new WebDriverError(
+      ErrorCode.NoSuchScript,
+      `No such script: ${scriptId}`,
+      { scriptId }
+    );
   }
 
   log.debug(`removePreloadScript: scriptId=${scriptId}`);
-  const start = Date.now();
 
-  await browser.scripting.unregisterContentScripts({ ids: [registrationId] });
+  await browser.scripting.unregisterContentScripts({
+    ids: [registration.registrationId],
+  });
 
   registeredScripts.delete(scriptId);
-
-  const elapsed = Date.now() - start;
-  log.debug(`removePreloadScript: completed in ${elapsed}ms`);
 }
 
 function getPreloadScriptCount(): number {
   return registeredScripts.size;
 }
 
+function getPreloadState(sessionId: number): {
+  scripts: Array<{ scriptId: ScriptId; matches: string[]; world: ScriptWorld }>;
+} {
+  return {
+    scripts: Array.from(registeredScripts.entries())
+      .filter(([, registration]) => registration.sessionId === sessionId)
+      .map(([scriptId, { matches, world }]) => ({ scriptId, matches, world })),
+  };
+}
+
+// Preload scripts outlive their tabs, so unregister them with their session
+sessions.onSessionEnded((sessionId) => {
+  const ids: string[] = [];
+  for (const [scriptId, registration] of registeredScripts) {
+    if (registration.sessionId === sessionId) {
+      ids.push(registration.registrationId);
+      registeredScripts.delete(scriptId);
+    }
+  }
+  if (ids.length === 0) return;
+
+  log.debug(
+    `Unregistering ${ids.length} preload scripts of session ${sessionId}`
+  );
+  browser.scripting.unregisterContentScripts({ ids }).catch((err: unknown) => {
+    log.error("Failed to unregister preload scripts", err);
+  });
+});
+
 // ============================================================================
 // Exports
 // ============================================================================
@@ -125,4 +166,5 @@ export {
   handleAddPreloadScript,
   handleRemovePreloadScript,
   getPreloadScriptCount,
+  getPreloadState,
 };
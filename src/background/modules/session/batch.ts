@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Batched command execution for session module.
+ * @module modules/session/batch
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode, createTabId, createFrameId } from "../../../types/index.js";
+
+import { registry } from "../../../core/registry.js";
+import { createLogger } from "../../../core/logger.js";
+import { WebDriverError, toWebDriverError } from "../../../core/errors.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type BatchMode = "stopOnError" | "continueOnError";
+
+interface BatchCommand {
+  /** Optional step id, usable as a reference root instead of the index. */
+  id?: string;
+  method: string;
+  params?: Record<string, unknown>;
+  /** Defaults to the batch request's tab. */
+  tabId?: number;
+  /** Defaults to the batch request's frame. */
+  frameId?: number;
+}
+
+interface BatchParams {
+  commands: BatchCommand[];
+  mode?: BatchMode;
+}
+
+type BatchStepResult =
+  | { type: "success"; result: unknown }
+  | {
+      type: "error";
+      error: string;
+      message: string;
+      data?: Record<string, unknown>;
+    }
+  | { type: "skipped" };
+
+interface BatchResult {
+  results: BatchStepResult[];
+  completed: number;
+  failed: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("Session.Batch");
+
+/** Key marking a reference to an earlier step's result. */
+const REF_KEY = "$ref";
+
+// ============================================================================
+// Implementation - References
+// ============================================================================
+
+function isReference(value: unknown): value is { [REF_KEY]: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return (
+    keys.length === 1 &&
+    keys[0] === REF_KEY &&
+    typeof (value as Record<string, unknown>)[REF_KEY] === "string"
+  );
+}
+
+/**
+ * Resolves a `"<step>.<path>"` reference against earlier results.
+ *
+ * `<step>` is a step index or step id; `<path>` is a dotted property path
+ * into that step's result (array indices allowed).
+ */
+function resolveReference(
+  ref: string,
+  commands: BatchCommand[],
+  results: BatchStepResult[]
+): unknown {
+  const [root = "", ...path] = ref.split(".");
+
+  const stepIndex = /^\d+$/.test(root)
+    ? parseInt(root, 10)
+    : commands.findIndex((c) => c.id === root);
+
+  // Only steps that already ran can be referenced
+  const step = stepIndex >= 0 ? results[stepIndex] : undefined;
+  if (!step) {
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      `Reference to unknown or later step: ${ref}`,
+      { ref }
+    );
+  }
+  if (step.type !== "success") {
+    throw new WebDriverError(
+      ErrorCode.InvalidArgument,
+      `Reference to ${step.type} step: ${ref}`,
+      { ref, step: stepIndex }
+    );
+  }
+
+  let current: unknown = step.result;
+  for (const key of path) {
+    if (typeof current !== "object" || current === null || !(key in current)) {
+      throw new WebDriverError(
+        ErrorCode.InvalidArgument,
+        `Reference path not found: ${ref}`,
+        { ref, step: stepIndex }
+      );
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function resolveReferences(
+  value: unknown,
+  commands: BatchCommand[],
+  results: BatchStepResult[]
+): unknown {
+  if (isReference(value)) {
+    return resolveReference(value[REF_KEY], commands, results);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveReferences(item, commands, results));
+  }
+  if (typeof value === "object" && value !== null) {
+    const resolved: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveReferences(item, commands, results);
+    }
+    return resolved;
+  }
+  return value;
+}
+
+// ============================================================================
+// Implementation - Handler
+// ============================================================================
+
+async function handleBatch(
+  params: unknown,
+  ctx: RequestContext
+): Promise<BatchResult> {
+  const { commands, mode = "stopOnError" } = params as BatchParams;
+
+  log.debug(`batch: ${commands.length} commands, mode=${mode}`);
+
+  const results: BatchStepResult[] = [];
+  let failed = 0;
+  let stopped = false;
+
+  for (const [index, command] of commands.entries()) {
+    if (stopped || ctx.signal.aborted) {
+      results.push({ type: "skipped" });
+      continue;
+    }
+
+    try {
+      if (command.method === "session.batch") {
+        throw new WebDriverError(
+          ErrorCode.InvalidArgument,
+          "session.batch cannot be nested"
+        );
+      }
+
+      const stepParams = resolveReferences(
+        command.params ?? {},
+        commands,
+        results
+      );
+      const stepContext: RequestContext = {
+        tabId:
+          command.tabId !== undefined ? createTabId(command.tabId) : ctx.tabId,
+        frameId:
+          command.frameId !== undefined
+            ? createFrameId(command.frameId)
+            : ctx.frameId,
+        sessionId: ctx.sessionId,
+        signal: ctx.signal,
+      };
+
+      const result = await registry.dispatch(
+        command.method,
+        stepParams,
+        stepContext
+      );
+      results.push({ type: "success", result });
+    } catch (err) {
+      const error = toWebDriverError(err);
+      log.debug(`batch: step ${index} (${command.method}) failed`, {
+        error: error.code,
+        message: error.message,
+      });
+
+      const stepResult: BatchStepResult = {
+        type: "error",
+        error: error.code,
+        message: error.message,
+      };
+      if (error.data !== undefined) {
+        stepResult.data = error.data;
+      }
+      results.push(stepResult);
+      failed++;
+
+      if (mode === "stopOnError") {
+        stopped = true;
+      }
+    }
+  }
+
+  const completed = results.filter((r) => r.type === "success").length;
+  log.debug(`batch: ${completed} succeeded, ${failed} failed`);
+
+  return { results, completed, failed };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { handleBatch };
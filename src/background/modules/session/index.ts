@@ -7,11 +7,33 @@
 // Imports
 // ============================================================================
 
-import type { RequestContext } from "../../../types/index.js";
-
+import type {
+  Capabilities,
+  MethodInfo,
+  RequestContext,
+} from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
+
+import { createRequestId } from "../../../types/identifiers.js";
 import { registry } from "../../../core/registry.js";
+import { sessions } from "../../../core/session-manager.js";
+import type { TransferOptions } from "../../../core/session.js";
+import { WebDriverError } from "../../../core/errors.js";
+import {
+  getCapabilities,
+  assertProtocolCompatible,
+} from "../../../core/capabilities.js";
 import { createLogger, stealLogs } from "../../../core/logger.js";
 import type { LogEntry } from "../../../core/logger.js";
+import { getDispatchMetrics } from "../../../core/middleware.js";
+import type { MethodMetrics } from "../../../core/middleware.js";
+
+import { handleBatch } from "./batch.js";
+import {
+  handleSubscribe,
+  handleUnsubscribe,
+  getEventSubscriptionState,
+} from "./subscriptions.js";
 
 // ============================================================================
 // Types
@@ -23,7 +45,35 @@ interface StealLogsResult {
 
 interface StatusResult {
   connected: boolean;
+  sessionId: number;
   handlers: number;
+  metrics: Record<string, MethodMetrics>;
+}
+
+interface CancelParams {
+  id: string;
+}
+
+interface CancelResult {
+  cancelled: boolean;
+}
+
+interface CapabilitiesParams {
+  minVersion?: string;
+}
+
+interface ConfigureParams {
+  binaryAttachments?: boolean;
+  chunkSize?: number;
+}
+
+interface DescribeParams {
+  method?: string;
+}
+
+interface DescribeResult {
+  methods: MethodInfo[];
+  events: string[];
 }
 
 // ============================================================================
@@ -38,10 +88,15 @@ const log = createLogger("Session");
 
 function handleStatus(
   _params: unknown,
-  _ctx: RequestContext
+  ctx: RequestContext
 ): Promise<StatusResult> {
   log.debug(`status: handlers=${registry.size}`);
-  return Promise.resolve({ connected: true, handlers: registry.size });
+  return Promise.resolve({
+    connected: true,
+    sessionId: ctx.sessionId,
+    handlers: registry.size,
+    metrics: getDispatchMetrics(),
+  });
 }
 
 function handleStealLogs(
@@ -53,17 +108,140 @@ function handleStealLogs(
   return Promise.resolve({ logs });
 }
 
+function handleCancel(
+  params: unknown,
+  ctx: RequestContext
+): Promise<CancelResult> {
+  const { id } = params as CancelParams;
+
+  // Request IDs are per connection, so only this session's requests match
+  const cancelled = sessions
+    .require(ctx.sessionId)
+    .cancelRequest(createRequestId(id));
+  log.debug(`cancel: id=${id}, cancelled=${cancelled}`);
+  return Promise.resolve({ cancelled });
+}
+
+function handleCapabilities(
+  params: unknown,
+  _ctx: RequestContext
+): Promise<Capabilities> {
+  const { minVersion } = (params ?? {}) as CapabilitiesParams;
+
+  if (minVersion !== undefined) {
+    assertProtocolCompatible(minVersion);
+  }
+
+  const capabilities = getCapabilities();
+  log.debug(
+    `capabilities: protocol=${capabilities.protocolVersion}, methods=${capabilities.methods.length}`
+  );
+  return Promise.resolve(capabilities);
+}
+
+function handleConfigure(
+  params: unknown,
+  ctx: RequestContext
+): Promise<TransferOptions> {
+  const { binaryAttachments, chunkSize } = (params ?? {}) as ConfigureParams;
+
+  const options: Partial<TransferOptions> = {};
+  if (binaryAttachments !== undefined) {
+    options.binaryAttachments = binaryAttachments;
+  }
+  if (chunkSize !== undefined) options.chunkSize = chunkSize;
+
+  const current = sessions.require(ctx.sessionId).configure(options);
+  log.debug(
+    `configure: binaryAttachments=${current.binaryAttachments}, chunkSize=${current.chunkSize}`
+  );
+  return Promise.resolve(current);
+}
+
+function handleDescribe(
+  params: unknown,
+  _ctx: RequestContext
+): Promise<DescribeResult> {
+  const { method } = (params ?? {}) as DescribeParams;
+
+  if (method !== undefined && !registry.has(method)) {
+    throw new WebDriverError(
+      ErrorCode.UnknownCommand,
+      `Unknown method: ${method}`,
+      { method }
+    );
+  }
+
+  const methods = (method !== undefined ? [method] : registry.getMethods()).map(
+    (name) => ({ method: name, params: registry.getSchema(name) ?? {} })
+  );
+  log.debug(`describe: ${methods.length} methods`);
+  return Promise.resolve({ methods, events: registry.getEvents() });
+}
+
 // ============================================================================
 // Registration
 // ============================================================================
 
 registry.register("session.status", handleStatus);
 registry.register("session.stealLogs", handleStealLogs);
-
-log.info("session module registered (2 handlers)");
+registry.register("session.cancel", handleCancel, {
+  id: { type: "string", required: true },
+});
+registry.register("session.capabilities", handleCapabilities, {
+  minVersion: { type: "string" },
+});
+registry.register("session.configure", handleConfigure, {
+  binaryAttachments: { type: "boolean" },
+  chunkSize: { type: "integer", minimum: 1024 },
+});
+registry.register("session.describe", handleDescribe, {
+  method: { type: "string" },
+});
+registry.register("session.batch", handleBatch, {
+  commands: {
+    type: "array",
+    required: true,
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        method: { type: "string", required: true },
+        params: { type: "object" },
+        tabId: { type: "integer" },
+        frameId: { type: "integer" },
+      },
+    },
+  },
+  mode: { type: "string", enum: ["stopOnError", "continueOnError"] },
+});
+
+registry.register("session.subscribe", handleSubscribe, {
+  events: { type: "array", required: true, items: { type: "string" } },
+  tabIds: { type: "array", items: { type: "integer" } },
+  frameIds: { type: "array", items: { type: "integer" } },
+  urlPatterns: { type: "array", items: { type: "string" } },
+});
+registry.register("session.unsubscribe", handleUnsubscribe, {
+  subscriptionId: { type: "string", required: true },
+});
+
+sessions.registerResumeState("session", getEventSubscriptionState);
+
+log.info("session module registered (9 handlers)");
 
 // ============================================================================
 // Exports
 // ============================================================================
 
-export { handleStatus, handleStealLogs };
+export {
+  handleStatus,
+  handleStealLogs,
+  handleCancel,
+  handleCapabilities,
+  handleConfigure,
+  handleDescribe,
+  handleBatch,
+  handleSubscribe,
+  handleUnsubscribe,
+};
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Event subscription handlers for session module.
+ * @module modules/session/subscriptions
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { RequestContext } from "../../../types/index.js";
+import { ErrorCode } from "../../../types/index.js";
+
+import { registry } from "../../../core/registry.js";
+import { sessions } from "../../../core/session-manager.js";
+import { createLogger } from "../../../core/logger.js";
+import { WebDriverError } from "../../../core/errors.js";
+import { coversEvent } from "../../../core/subscriptions.js";
+import type {
+  EventFilter,
+  EventSubscription,
+} from "../../../core/subscriptions.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SubscribeParams {
+  events: string[];
+  tabIds?: number[];
+  frameIds?: number[];
+  urlPatterns?: string[];
+}
+
+interface UnsubscribeParams {
+  subscriptionId: string;
+}
+
+interface UnsubscribeResult {
+  removed: boolean;
+  subscriptionId: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("Session.Subscriptions");
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+function handleSubscribe(
+  params: unknown,
+  ctx: RequestContext
+): Promise<EventSubscription> {
+  const { events, tabIds, frameIds, urlPatterns } = params as SubscribeParams;
+
+  const declared = registry.getEvents();
+  for (const name of events) {
+    if (!declared.some((event) => coversEvent(name, event))) {
+      throw new WebDriverError(
+        ErrorCode.InvalidArgument,
+        `Unknown event or module: ${name}`,
+        { event: name }
+      );
+    }
+  }
+
+  const filter: EventFilter = { events };
+  if (tabIds !== undefined) filter.tabIds = tabIds;
+  if (frameIds !== undefined) filter.frameIds = frameIds;
+  if (urlPatterns !== undefined) filter.urlPatterns = urlPatterns;
+
+  const subscription = sessions
+    .require(ctx.sessionId)
+    .subscriptions.add(filter);
+
+  log.debug(
+    `subscribe: id=${subscription.subscriptionId}, events=${events.join(",")}`
+  );
+  return Promise.resolve(subscription);
+}
+
+function handleUnsubscribe(
+  params: unknown,
+  ctx: RequestContext
+): Promise<UnsubscribeResult> {
+  const { subscriptionId } = params as UnsubscribeParams;
+
+  const removed = sessions
+    .require(ctx.sessionId)
+    .subscriptions.remove(subscriptionId);
+
+  log.debug(`unsubscribe: id=${subscriptionId}, removed=${removed}`);
+  return Promise.resolve({ removed, subscriptionId });
+}
+
+// Subscriptions replayed to the driver on resume
+function getEventSubscriptionState(sessionId: number): {
+  subscriptions: EventSubscription[];
+} {
+  return {
+    subscriptions: sessions.get(sessionId)?.subscriptions.list() ?? [],
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { handleSubscribe, handleUnsubscribe, getEventSubscriptionState };
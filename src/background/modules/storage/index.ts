@@ -1,5 +1,8 @@
 /**
  * @fileoverview Storage module - cookies management.
+ *
+ * Cookies are read and written in the cookie store of the request's tab, so
+ * tabs in containers or private windows see their own cookies.
  * @module modules/storage
  */
 
@@ -45,6 +48,11 @@ interface GetAllCookiesParams {
   url?: string;
 }
 
+interface TabCookieTarget {
+  url?: string;
+  storeId?: string;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -55,13 +63,19 @@ const log = createLogger("Storage");
 // Implementation - Helpers
 // ============================================================================
 
-async function getTabUrl(tabId: number): Promise<string | undefined> {
+/**
+ * Gets a tab's URL and cookie store.
+ */
+async function getTabCookieTarget(tabId: number): Promise<TabCookieTarget> {
+  const target: TabCookieTarget = {};
   try {
     const tab = await browser.tabs.get(tabId);
-    return tab.url;
+    if (tab.url !== undefined) target.url = tab.url;
+    if (tab.cookieStoreId !== undefined) target.storeId = tab.cookieStoreId;
   } catch {
-    return undefined;
+    // Tab is gone; fall back to the default store
   }
+  return target;
 }
 
 function firefoxCookieToOurs(cookie: browser.cookies.Cookie): Cookie {
@@ -114,7 +128,8 @@ async function handleGetCookie(
 ): Promise<{ cookie: Cookie | null }> {
   const { name, url: providedUrl } = params as GetCookieParams;
 
-  const url = providedUrl ?? (await getTabUrl(ctx.tabId));
+  const { url: tabUrl, storeId } = await getTabCookieTarget(ctx.tabId);
+  const url = providedUrl ?? tabUrl;
   if (!url) {
     log.warn(`getCookie: No URL available for tab ${ctx.tabId}`);
     return { cookie: null };
@@ -123,7 +138,10 @@ async function handleGetCookie(
   log.debug(`getCookie: name="${name}", url=${url}, tab=${ctx.tabId}`);
 
   try {
-    const cookie = await browser.cookies.get({ name, url });
+    const details: browser.cookies._GetDetails = { name, url };
+    if (storeId !== undefined) details.storeId = storeId;
+
+    const cookie = await browser.cookies.get(details);
     if (!cookie) {
       log.debug(`getCookie: not found`);
       return { cookie: null };
@@ -142,7 +160,8 @@ async function handleSetCookie(
 ): Promise<{ success: boolean }> {
   const { cookie, url: providedUrl } = params as SetCookieParams;
 
-  const url = providedUrl ?? (await getTabUrl(ctx.tabId));
+  const { url: tabUrl, storeId } = await getTabCookieTarget(ctx.tabId);
+  const url = providedUrl ?? tabUrl;
   if (!url) {
     log.warn(`setCookie: No URL available for tab ${ctx.tabId}`);
     return { success: false };
@@ -177,6 +196,9 @@ async function handleSetCookie(
     if (cookie.expirationDate !== undefined) {
       details.expirationDate = cookie.expirationDate;
     }
+    if (storeId !== undefined) {
+      details.storeId = storeId;
+    }
 
     await browser.cookies.set(details);
     log.debug(`setCookie: success`);
@@ -193,7 +215,8 @@ async function handleDeleteCookie(
 ): Promise<{ success: boolean }> {
   const { name, url: providedUrl } = params as DeleteCookieParams;
 
-  const url = providedUrl ?? (await getTabUrl(ctx.tabId));
+  const { url: tabUrl, storeId } = await getTabCookieTarget(ctx.tabId);
+  const url = providedUrl ?? tabUrl;
   if (!url) {
     log.warn(`deleteCookie: No URL available for tab ${ctx.tabId}`);
     return { success: false };
@@ -202,7 +225,10 @@ async function handleDeleteCookie(
   log.debug(`deleteCookie: name="${name}", url=${url}, tab=${ctx.tabId}`);
 
   try {
-    await browser.cookies.remove({ name, url });
+    const details: browser.cookies._RemoveDetails = { name, url };
+    if (storeId !== undefined) details.storeId = storeId;
+
+    await browser.cookies.remove(details);
     log.debug(`deleteCookie: success`);
     return { success: true };
   } catch (error) {
@@ -217,7 +243,8 @@ async function handleGetAllCookies(
 ): Promise<{ cookies: Cookie[] }> {
   const { url: providedUrl } = params as GetAllCookiesParams;
 
-  const url = providedUrl ?? (await getTabUrl(ctx.tabId));
+  const { url: tabUrl, storeId } = await getTabCookieTarget(ctx.tabId);
+  const url = providedUrl ?? tabUrl;
   if (!url) {
     log.warn(`getAllCookies: No URL available for tab ${ctx.tabId}`);
     return { cookies: [] };
@@ -226,7 +253,10 @@ async function handleGetAllCookies(
   log.debug(`getAllCookies: url=${url}, tab=${ctx.tabId}`);
 
   try {
-    const cookies = await browser.cookies.getAll({ url });
+    const details: browser.cookies._GetAllDetails = { url };
+    if (storeId !== undefined) details.storeId = storeId;
+
+    const cookies = await browser.cookies.getAll(details);
     log.debug(`getAllCookies: found ${cookies.length} cookies`);
     return { cookies: cookies.map(firefoxCookieToOurs) };
   } catch (error) {
@@ -239,10 +269,34 @@ async function handleGetAllCookies(
 // Registration
 // ============================================================================
 
-registry.register("storage.getCookie", handleGetCookie);
-registry.register("storage.setCookie", handleSetCookie);
-registry.register("storage.deleteCookie", handleDeleteCookie);
-registry.register("storage.getAllCookies", handleGetAllCookies);
+registry.register("storage.getCookie", handleGetCookie, {
+  name: { type: "string", required: true },
+  url: { type: "string" },
+});
+registry.register("storage.setCookie", handleSetCookie, {
+  cookie: {
+    type: "object",
+    required: true,
+    properties: {
+      name: { type: "string", required: true },
+      value: { type: "string", required: true },
+      domain: { type: "string" },
+      path: { type: "string" },
+      secure: { type: "boolean" },
+      httpOnly: { type: "boolean" },
+      sameSite: { type: "string" },
+      expirationDate: { type: "number" },
+    },
+  },
+  url: { type: "string" },
+});
+registry.register("storage.deleteCookie", handleDeleteCookie, {
+  name: { type: "string", required: true },
+  url: { type: "string" },
+});
+registry.register("storage.getAllCookies", handleGetAllCookies, {
+  url: { type: "string" },
+});
 
 log.info("storage module registered (4 handlers)");
 
@@ -53,21 +53,40 @@ function isLocalhostWsUrl(wsUrl: string | undefined): boolean {
   );
 }
 
+/**
+ * Checks the shape of the driver's auth proof (verified by the background).
+ *
+ * @param auth - Value to check
+ * @returns True if nonce and mac are strings
+ */
+function isAuthProof(auth: unknown): auth is { nonce: string; mac: string } {
+  if (typeof auth !== "object" || auth === null) return false;
+  const proof = auth as Record<string, unknown>;
+  return typeof proof.nonce === "string" && typeof proof.mac === "string";
+}
+
 /**
  * Type guard for WEBDRIVER_INIT message.
  *
  * @param data - Data to check
  * @returns True if valid init message
  */
-function isValidInitMessage(
-  data: unknown
-): data is { type: string; wsUrl: string; sessionId: number } {
+function isValidInitMessage(data: unknown): data is {
+  type: string;
+  wsUrl: string;
+  sessionId: number;
+  minProtocolVersion?: string;
+  auth?: { nonce: string; mac: string };
+} {
   if (typeof data !== "object" || data === null) return false;
   const msg = data as Record<string, unknown>;
   return (
     msg.type === "WEBDRIVER_INIT" &&
     typeof msg.wsUrl === "string" &&
-    typeof msg.sessionId === "number"
+    typeof msg.sessionId === "number" &&
+    (msg.minProtocolVersion === undefined ||
+      typeof msg.minProtocolVersion === "string") &&
+    (msg.auth === undefined || isAuthProof(msg.auth))
   );
 }
 
@@ -81,7 +100,7 @@ function handleMessage(event: MessageEvent): void {
   if (!isTrustedOrigin(event.origin)) return;
   if (!isValidInitMessage(event.data)) return;
 
-  const { wsUrl, sessionId } = event.data;
+  const { wsUrl, sessionId, minProtocolVersion, auth } = event.data;
 
   if (!isLocalhostWsUrl(wsUrl)) return;
 
@@ -89,10 +108,18 @@ function handleMessage(event: MessageEvent): void {
 
   log.info("Forwarding WEBDRIVER_INIT to background", { wsUrl, sessionId });
 
-  sendInit(wsUrl, sessionId).catch((err) => {
-    log.error("Failed to forward init message", err);
-    initialized = false;
-  });
+  sendInit(wsUrl, sessionId, minProtocolVersion, auth)
+    .then((result) => {
+      // Allow another attempt after a rejected init
+      if (!result.success) {
+        log.warn("WEBDRIVER_INIT rejected", { error: result.error });
+        initialized = false;
+      }
+    })
+    .catch((err) => {
+      log.error("Failed to forward init message", err);
+      initialized = false;
+    });
 }
 
 /**
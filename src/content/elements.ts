@@ -10,6 +10,7 @@
 import { generateUUID } from "../core/utils.js";
 import { registerHandler, registerStateProvider } from "./messaging.js";
 import { createContentLogger } from "./logger.js";
+import { serializeRemoteValue } from "./serialize.js";
 
 // ============================================================================
 // Types
@@ -88,28 +89,16 @@ interface InputMouseUpMessage {
   button: number;
 }
 
-interface FrameGetIndexMessage {
-  type: "FRAME_GET_INDEX";
+interface FrameGetIdMessage {
+  type: "FRAME_GET_ID";
   elementId: string;
-  frameId: number;
 }
 
 interface ElementGetBoundsAndScrollMessage {
   type: "ELEMENT_GET_BOUNDS_AND_SCROLL";
   elementId: string;
-}
-
-interface CropImageMessage {
-  type: "CROP_IMAGE";
-  dataUrl: string;
-  bounds: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  format: "png" | "jpeg";
-  quality?: number;
+  /** Elements whose bounds are also returned, for masking. */
+  maskElementIds?: string[];
 }
 
 interface SuccessResponse {
@@ -125,8 +114,10 @@ interface ErrorResponse {
   code:
     | "no such element"
     | "stale element"
+    | "no such frame"
     | "invalid argument"
     | "script error";
+  data?: Record<string, unknown>;
 }
 
 type ElementResponse = SuccessResponse | ErrorResponse;
@@ -159,6 +150,7 @@ function getElement(elementId: string): Element | ErrorResponse {
       success: false,
       error: `Element not found: ${elementId}`,
       code: "no such element",
+      data: { elementId },
     };
   }
 
@@ -168,6 +160,7 @@ function getElement(elementId: string): Element | ErrorResponse {
       success: false,
       error: `Element is stale: ${elementId}`,
       code: "stale element",
+      data: { elementId },
     };
   }
 
@@ -207,61 +200,6 @@ function getElementCenter(element: Element): { x: number; y: number } {
   return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
 }
 
-// ============================================================================
-// Implementation - Serialization
-// ============================================================================
-
-function serializeValue(value: unknown): unknown {
-  if (value === null || value === undefined) {
-    return value;
-  }
-
-  if (
-    typeof value === "string" ||
-    typeof value === "number" ||
-    typeof value === "boolean"
-  ) {
-    return value;
-  }
-
-  if (typeof value === "function") {
-    return { __type: "function", name: value.name || "anonymous" };
-  }
-
-  if (value instanceof Element) {
-    const elementId = generateUUID();
-    elementStore.set(elementId, value);
-    return { __type: "element", elementId, tagName: value.tagName };
-  }
-
-  if (value instanceof NodeList || value instanceof HTMLCollection) {
-    const refs: unknown[] = [];
-    for (let i = 0; i < value.length; i++) {
-      const item = value[i];
-      if (item instanceof Element) {
-        const elementId = generateUUID();
-        elementStore.set(elementId, item);
-        refs.push({ __type: "element", elementId, tagName: item.tagName });
-      }
-    }
-    return refs;
-  }
-
-  if (Array.isArray(value)) {
-    return value.map(serializeValue);
-  }
-
-  if (typeof value === "object") {
-    try {
-      return JSON.parse(JSON.stringify(value));
-    } catch {
-      return { __type: "object", toString: String(value) };
-    }
-  }
-
-  return String(value);
-}
-
 function charToKeyProps(char: string): {
   key: string;
   code: string;
@@ -461,6 +399,7 @@ function findElement(
       success: false,
       error: `Element not found: ${strategy}="${value}"`,
       code: "no such element",
+      data: { strategy, value },
     };
   }
 
@@ -520,13 +459,14 @@ function getProperty(elementId: string, name: string): ElementResponse {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const value = (element as any)[name];
     log.debug(`getProperty result: ${typeof value}`);
-    return { success: true, value: serializeValue(value) };
+    return { success: true, value: serializeRemoteValue(value) };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     return {
       success: false,
       error: `Failed to get property "${name}": ${message}`,
       code: "script error",
+      data: { name, stack: err instanceof Error ? err.stack : undefined },
     };
   }
 }
@@ -561,6 +501,7 @@ function setProperty(
       success: false,
       error: `Failed to set property "${name}": ${message}`,
       code: "script error",
+      data: { name, stack: err instanceof Error ? err.stack : undefined },
     };
   }
 }
@@ -593,13 +534,14 @@ function callMethod(
 
     const result = method.apply(element, args);
     log.debug(`callMethod result: ${typeof result}`);
-    return { success: true, value: serializeValue(result) };
+    return { success: true, value: serializeRemoteValue(result) };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     return {
       success: false,
       error: `Failed to call method "${name}": ${message}`,
       code: "script error",
+      data: { name, stack: err instanceof Error ? err.stack : undefined },
     };
   }
 }
@@ -1063,10 +1005,8 @@ function mouseUp(
 // Implementation - Frame Operations
 // ============================================================================
 
-function getFrameIndex(
-  elementId: string
-): ElementResponse & { frameIndex?: number } {
-  log.debug(`getFrameIndex: elementId=${elementId}`);
+function getFrameId(elementId: string): ElementResponse & { frameId?: number } {
+  log.debug(`getFrameId: elementId=${elementId}`);
 
   const element = getElement(elementId);
   if ("success" in element && !element.success) {
@@ -1075,60 +1015,62 @@ function getFrameIndex(
 
   const el = element as Element;
 
-  if (!(el instanceof HTMLIFrameElement)) {
+  if (!(el instanceof HTMLIFrameElement || el instanceof HTMLFrameElement)) {
     return {
       success: false,
-      error: `Element is not an iframe: ${el.tagName}`,
-      code: "invalid argument",
+      error: `Element is not a frame: ${el.tagName}`,
+      code: "no such frame",
+      data: { elementId },
     };
   }
 
-  const targetWindow = el.contentWindow;
-  if (!targetWindow) {
+  // Works for cross-origin frames, unlike comparing window.frames entries
+  const frameId = browser.runtime.getFrameId(el);
+  if (frameId < 0) {
     return {
       success: false,
-      error: "Cannot access iframe contentWindow",
-      code: "script error",
+      error: "Frame element has no browsing context",
+      code: "no such frame",
+      data: { elementId },
     };
   }
 
-  for (let i = 0; i < window.frames.length; i++) {
-    try {
-      if (window.frames[i] === targetWindow) {
-        log.debug(`Found frame at index: ${i}`);
-        return { success: true, frameIndex: i };
-      }
-    } catch {
-      // Cross-origin comparison may throw
-    }
-  }
-
-  return {
-    success: false,
-    error: "Could not find frame index",
-    code: "no such element",
-  };
+  log.debug(`Found frameId: ${frameId}`);
+  return { success: true, frameId };
 }
 
 // ============================================================================
 // Implementation - Screenshot Operations
 // ============================================================================
 
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 interface BoundsResponse {
   success: boolean;
-  bounds?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  bounds?: Bounds;
+  /** Bounds of the requested mask elements, in request order. */
+  masks?: Bounds[];
   dpr?: number;
   error?: string;
   code?: string;
 }
 
-function getElementBoundsAndScroll(elementId: string): BoundsResponse {
-  log.debug(`getElementBoundsAndScroll: elementId=${elementId}`);
+function toBounds(rect: DOMRect): Bounds {
+  return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+}
+
+function getElementBoundsAndScroll(
+  elementId: string,
+  maskElementIds: string[] = []
+): BoundsResponse {
+  log.debug(
+    `getElementBoundsAndScroll: elementId=${elementId}, masks=${maskElementIds.length}`
+  );
 
   const element = getElement(elementId);
   if ("success" in element && !element.success) {
@@ -1153,125 +1095,22 @@ function getElementBoundsAndScroll(elementId: string): BoundsResponse {
       `bounds: x=${rect.x}, y=${rect.y}, width=${rect.width}, height=${rect.height}, dpr=${dpr}`
     );
 
-    return {
-      success: true,
-      bounds: {
-        x: rect.x,
-        y: rect.y,
-        width: rect.width,
-        height: rect.height,
-      },
-      dpr,
-    };
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    return {
-      success: false,
-      error: `Failed to get element bounds: ${message}`,
-      code: "script error",
-    };
-  }
-}
-
-interface CropResponse {
-  success: boolean;
-  data?: string;
-  error?: string;
-}
-
-async function cropImage(
-  dataUrl: string,
-  bounds: { x: number; y: number; width: number; height: number },
-  format: "png" | "jpeg",
-  quality?: number
-): Promise<CropResponse> {
-  log.debug(`cropImage: bounds=${JSON.stringify(bounds)}, format=${format}`);
-
-  try {
-    // Create an image from the data URL
-    const img = new Image();
-    await new Promise<void>((resolve, reject) => {
-      img.onload = () => resolve();
-      img.onerror = () => reject(new Error("Failed to load image"));
-      img.src = dataUrl;
-    });
-
-    // Account for device pixel ratio
-    const dpr = window.devicePixelRatio || 1;
-    const scaledBounds = {
-      x: Math.round(bounds.x * dpr),
-      y: Math.round(bounds.y * dpr),
-      width: Math.round(bounds.width * dpr),
-      height: Math.round(bounds.height * dpr),
-    };
-
-    // Ensure bounds are within image
-    const cropX = Math.max(0, Math.min(scaledBounds.x, img.width));
-    const cropY = Math.max(0, Math.min(scaledBounds.y, img.height));
-    const cropWidth = Math.min(scaledBounds.width, img.width - cropX);
-    const cropHeight = Math.min(scaledBounds.height, img.height - cropY);
-
-    if (cropWidth <= 0 || cropHeight <= 0) {
-      return {
-        success: false,
-        error: "Element is outside visible area",
-      };
-    }
-
-    // Create canvas and crop
-    const canvas = new OffscreenCanvas(cropWidth, cropHeight);
-    const ctx = canvas.getContext("2d");
-    if (!ctx) {
-      return {
-        success: false,
-        error: "Failed to create canvas context",
-      };
-    }
-
-    ctx.drawImage(
-      img,
-      cropX,
-      cropY,
-      cropWidth,
-      cropHeight,
-      0,
-      0,
-      cropWidth,
-      cropHeight
-    );
-
-    // Convert to blob
-    const mimeType = format === "jpeg" ? "image/jpeg" : "image/png";
-    const blobOptions: { type: string; quality?: number } = { type: mimeType };
-    if (format === "jpeg") {
-      blobOptions.quality = (quality ?? 80) / 100;
+    const masks: Bounds[] = [];
+    for (const maskId of maskElementIds) {
+      const mask = getElement(maskId);
+      if ("success" in mask && !mask.success) {
+        return mask as BoundsResponse;
+      }
+      masks.push(toBounds((mask as Element).getBoundingClientRect()));
     }
-    const blob = await canvas.convertToBlob(blobOptions);
-
-    // Convert blob to base64
-    const base64 = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        const base64Data = result.split(",")[1];
-        if (base64Data) {
-          resolve(base64Data);
-        } else {
-          reject(new Error("Failed to convert to base64"));
-        }
-      };
-      reader.onerror = () => reject(new Error("Failed to read blob"));
-      reader.readAsDataURL(blob);
-    });
 
-    log.debug(`cropImage: success, ${base64.length} bytes`);
-
-    return { success: true, data: base64 };
+    return { success: true, bounds: toBounds(rect), masks, dpr };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     return {
       success: false,
-      error: `Failed to crop image: ${message}`,
+      error: `Failed to get element bounds: ${message}`,
+      code: "script error",
     };
   }
 }
@@ -1347,10 +1186,10 @@ function handleElementAction(
   return Promise.resolve(response);
 }
 
-function handleFrameGetIndex(
-  msg: FrameGetIndexMessage
-): Promise<ElementResponse & { frameIndex?: number }> {
-  return Promise.resolve(getFrameIndex(msg.elementId));
+function handleFrameGetId(
+  msg: FrameGetIdMessage
+): Promise<ElementResponse & { frameId?: number }> {
+  return Promise.resolve(getFrameId(msg.elementId));
 }
 
 function handleInputTypeKey(
@@ -1396,11 +1235,9 @@ function handleInputMouseUp(
 function handleElementGetBoundsAndScroll(
   msg: ElementGetBoundsAndScrollMessage
 ): Promise<BoundsResponse> {
-  return Promise.resolve(getElementBoundsAndScroll(msg.elementId));
-}
-
-function handleCropImage(msg: CropImageMessage): Promise<CropResponse> {
-  return cropImage(msg.dataUrl, msg.bounds, msg.format, msg.quality);
+  return Promise.resolve(
+    getElementBoundsAndScroll(msg.elementId, msg.maskElementIds)
+  );
 }
 
 interface GetDevicePixelRatioMessage {
@@ -1421,7 +1258,7 @@ function initElements(): void {
   registerHandler("ELEMENT_FIND", handleElementFind);
   registerHandler("ELEMENT_FIND_ALL", handleElementFindAll);
   registerHandler("ELEMENT_ACTION", handleElementAction);
-  registerHandler("FRAME_GET_INDEX", handleFrameGetIndex);
+  registerHandler("FRAME_GET_ID", handleFrameGetId);
   registerHandler("INPUT_TYPE_KEY", handleInputTypeKey);
   registerHandler("INPUT_TYPE_TEXT", handleInputTypeText);
   registerHandler("INPUT_MOUSE_CLICK", handleInputMouseClick);
@@ -1432,7 +1269,6 @@ function initElements(): void {
     "ELEMENT_GET_BOUNDS_AND_SCROLL",
     handleElementGetBoundsAndScroll
   );
-  registerHandler("CROP_IMAGE", handleCropImage);
   registerHandler("GET_DEVICE_PIXEL_RATIO", handleGetDevicePixelRatio);
 
   registerStateProvider(() => ({ elementCount: elementStore.size }));
@@ -1450,4 +1286,10 @@ function initElements(): void {
 // Exports
 // ============================================================================
 
-export { initElements, getStoreSize, cleanupStaleElements, getElementStore };
+export {
+  initElements,
+  getStoreSize,
+  cleanupStaleElements,
+  getElementStore,
+  getElement,
+};
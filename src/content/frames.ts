@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Frame element lookups for frame switching and the frame tree,
+ * and unload notices for frame lifecycle events.
+ * @module content/frames
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { FrameElementInfo } from "../types/index.js";
+
+import { registerHandler, sendFrameUnloaded } from "./messaging.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FrameListChildrenMessage {
+  type: "FRAME_LIST_CHILDREN";
+}
+
+interface FrameListChildrenResponse {
+  success: true;
+  frames: FrameElementInfo[];
+}
+
+interface FrameFindByNameMessage {
+  type: "FRAME_FIND_BY_NAME";
+  /** `name` or `id` attribute. */
+  name: string;
+}
+
+interface FrameFindBySelectorMessage {
+  type: "FRAME_FIND_BY_SELECTOR";
+  selector: string;
+}
+
+type FrameFindResponse =
+  | { success: true; frameId: number }
+  | {
+      success: false;
+      error: string;
+      code: "no such frame" | "invalid argument";
+      data?: Record<string, unknown>;
+    };
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+function getFrameElements(): HTMLElement[] {
+  return Array.from(
+    document.querySelectorAll<HTMLIFrameElement | HTMLFrameElement>(
+      "iframe, frame"
+    )
+  );
+}
+
+function describeFrameElement(el: HTMLElement): FrameElementInfo {
+  const rect = el.getBoundingClientRect();
+  return {
+    frameId: browser.runtime.getFrameId(el),
+    tagName: el.tagName.toLowerCase(),
+    name: el.getAttribute("name"),
+    id: el.getAttribute("id"),
+    src: el.getAttribute("src"),
+    rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+  };
+}
+
+/**
+ * Maps a frame element to its Firefox frame ID.
+ *
+ * `runtime.getFrameId` works for cross-origin frames and does not depend on
+ * `window.frames` ordering.
+ */
+function toFrameResponse(
+  el: Element | null,
+  data: Record<string, unknown>
+): FrameFindResponse {
+  if (!el) {
+    return {
+      success: false,
+      error: "No frame element found",
+      code: "no such frame",
+      data,
+    };
+  }
+  if (!(el instanceof HTMLIFrameElement || el instanceof HTMLFrameElement)) {
+    return {
+      success: false,
+      error: `Element is not a frame: ${el.tagName}`,
+      code: "no such frame",
+      data,
+    };
+  }
+
+  const frameId = browser.runtime.getFrameId(el);
+  if (frameId < 0) {
+    return {
+      success: false,
+      error: "Frame element has no browsing context",
+      code: "no such frame",
+      data,
+    };
+  }
+  return { success: true, frameId };
+}
+
+function handleFindByName(
+  msg: FrameFindByNameMessage
+): Promise<FrameFindResponse> {
+  // Selenium semantics: name first, then id
+  const elements = getFrameElements();
+  const el =
+    elements.find((e) => e.getAttribute("name") === msg.name) ??
+    elements.find((e) => e.id === msg.name) ??
+    null;
+
+  return Promise.resolve(toFrameResponse(el, { name: msg.name }));
+}
+
+function handleFindBySelector(
+  msg: FrameFindBySelectorMessage
+): Promise<FrameFindResponse> {
+  let el: Element | null;
+  try {
+    el = document.querySelector(msg.selector);
+  } catch {
+    return Promise.resolve({
+      success: false,
+      error: `Invalid selector: ${msg.selector}`,
+      code: "invalid argument",
+      data: { selector: msg.selector },
+    });
+  }
+
+  return Promise.resolve(toFrameResponse(el, { selector: msg.selector }));
+}
+
+function handleListChildren(
+  _msg: FrameListChildrenMessage
+): Promise<FrameListChildrenResponse> {
+  return Promise.resolve({
+    success: true,
+    frames: getFrameElements().map(describeFrameElement),
+  });
+}
+
+// ============================================================================
+// Implementation - Initialization
+// ============================================================================
+
+function initFrames(): void {
+  registerHandler("FRAME_LIST_CHILDREN", handleListChildren);
+  registerHandler("FRAME_FIND_BY_NAME", handleFindByName);
+  registerHandler("FRAME_FIND_BY_SELECTOR", handleFindBySelector);
+
+  // Background has no event for removed frames
+  if (window !== window.top) {
+    window.addEventListener("pagehide", sendFrameUnloaded);
+  }
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { initFrames };
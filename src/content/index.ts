@@ -11,6 +11,10 @@ import { initMessaging } from "./messaging.js";
 import { initBridge } from "./bridge.js";
 import { initElements, getElementStore } from "./elements.js";
 import { initObserver } from "./observer.js";
+import { initScreenshot } from "./screenshot.js";
+import { initFrames } from "./frames.js";
+import { initScript } from "./script.js";
+import { initSerialize } from "./serialize.js";
 
 // ============================================================================
 // Implementation
@@ -23,9 +27,13 @@ function init(): void {
   initMessaging();
   initBridge();
   initElements();
+  initScreenshot();
+  initFrames();
+  initScript();
 
   const elementStore = getElementStore();
   initObserver(elementStore);
+  initSerialize(elementStore);
 }
 
 init();
@@ -28,12 +28,20 @@ interface WebDriverInitMessage {
   type: "WEBDRIVER_INIT";
   wsUrl: string;
   sessionId: number;
+  minProtocolVersion?: string;
+  auth?: { nonce: string; mac: string };
+}
+
+/** Frame unload notice (subframes only). */
+interface FrameUnloadedMessage {
+  type: "FRAME_UNLOADED";
 }
 
 type OutgoingMessage =
   | ContentLogMessage
   | ContentEventMessage
-  | WebDriverInitMessage;
+  | WebDriverInitMessage
+  | FrameUnloadedMessage;
 
 /** Content state for debug popup. */
 interface ContentState {
@@ -116,18 +124,41 @@ function sendEvent(method: string, params: Record<string, unknown>): void {
   send({ type: "CONTENT_EVENT", method, params });
 }
 
+/**
+ * Tells background that this frame's document is going away, so it can
+ * check whether the frame was removed.
+ */
+function sendFrameUnloaded(): void {
+  send({ type: "FRAME_UNLOADED" });
+}
+
 /**
  * Sends WebDriver init to background.
  *
  * @param wsUrl - WebSocket URL
  * @param sessionId - Session ID
+ * @param minProtocolVersion - Minimum protocol version required by the driver
+ * @param auth - Driver's HMAC proof of the shared key
  * @returns Promise resolving to init result
  */
 async function sendInit(
   wsUrl: string,
-  sessionId: number
+  sessionId: number,
+  minProtocolVersion?: string,
+  auth?: { nonce: string; mac: string }
 ): Promise<{ success: boolean; error?: string }> {
-  return sendWithResponse({ type: "WEBDRIVER_INIT", wsUrl, sessionId });
+  const message: WebDriverInitMessage = {
+    type: "WEBDRIVER_INIT",
+    wsUrl,
+    sessionId,
+  };
+  if (minProtocolVersion !== undefined) {
+    message.minProtocolVersion = minProtocolVersion;
+  }
+  if (auth !== undefined) {
+    message.auth = auth;
+  }
+  return sendWithResponse(message);
 }
 
 /**
@@ -257,6 +288,7 @@ export type { ContentState, MessageHandler };
 export {
   sendLog,
   sendEvent,
+  sendFrameUnloaded,
   sendInit,
   registerHandler,
   unregisterHandler,
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Page scrolling for multi-tile screenshots.
+ * @module content/screenshot
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { registerHandler } from "./messaging.js";
+import { createContentLogger } from "./logger.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PageMetrics {
+  scrollX: number;
+  scrollY: number;
+  /** Viewport size without scrollbars (CSS pixels). */
+  viewportWidth: number;
+  viewportHeight: number;
+  /** Scrollable document size (CSS pixels). */
+  documentWidth: number;
+  documentHeight: number;
+  dpr: number;
+}
+
+interface PrepareResponse {
+  success: true;
+  metrics: PageMetrics;
+}
+
+interface ScrollResponse {
+  success: true;
+  scrollX: number;
+  scrollY: number;
+}
+
+interface ScreenshotPrepareMessage {
+  type: "SCREENSHOT_PREPARE";
+}
+
+interface ScreenshotScrollMessage {
+  type: "SCREENSHOT_SCROLL";
+  x: number;
+  y: number;
+  /** Hide fixed and stuck sticky elements so tiles do not repeat them. */
+  hideFixed: boolean;
+}
+
+interface ScreenshotRestoreMessage {
+  type: "SCREENSHOT_RESTORE";
+}
+
+interface ScreenshotFrameOffsetMessage {
+  type: "SCREENSHOT_FRAME_OFFSET";
+  /** Child frame whose position in this frame's viewport is wanted. */
+  frameId: number;
+}
+
+type FrameOffsetResponse =
+  | { success: true; x: number; y: number }
+  | { success: false; error: string; code: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createContentLogger("Screenshot");
+
+// ============================================================================
+// State
+// ============================================================================
+
+/** Scroll position before the capture started. */
+let savedScroll: { x: number; y: number } | null = null;
+
+/** Elements hidden during the capture, with their old inline value. */
+const hiddenElements = new Map<HTMLElement, string>();
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+function getMetrics(): PageMetrics {
+  const root = document.documentElement;
+  const body = document.body;
+
+  return {
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    viewportWidth: root.clientWidth || window.innerWidth,
+    viewportHeight: root.clientHeight || window.innerHeight,
+    documentWidth: Math.max(root.scrollWidth, body?.scrollWidth ?? 0),
+    documentHeight: Math.max(root.scrollHeight, body?.scrollHeight ?? 0),
+    dpr: window.devicePixelRatio || 1,
+  };
+}
+
+/**
+ * Checks whether a sticky element sits at its offset from a viewport edge,
+ * i.e. is stuck rather than scrolling with the document.
+ */
+function isStuck(el: HTMLElement, style: CSSStyleDeclaration): boolean {
+  const root = document.documentElement;
+  const rect = el.getBoundingClientRect();
+  const viewportWidth = root.clientWidth || window.innerWidth;
+  const viewportHeight = root.clientHeight || window.innerHeight;
+
+  const edges: Array<[offset: string, distance: number]> = [
+    [style.top, rect.top],
+    [style.bottom, viewportHeight - rect.bottom],
+    [style.left, rect.left],
+    [style.right, viewportWidth - rect.right],
+  ];
+  return edges.some(
+    ([offset, distance]) =>
+      offset !== "auto" && Math.abs(distance - parseFloat(offset)) < 1
+  );
+}
+
+function showElement(el: HTMLElement, visibility: string): void {
+  if (visibility) {
+    el.style.setProperty("visibility", visibility);
+  } else {
+    el.style.removeProperty("visibility");
+  }
+}
+
+/**
+ * Hides fixed elements and sticky elements stuck to a viewport edge.
+ *
+ * Sticky elements still in the flow belong to the tile and stay visible, so
+ * this runs again after every scroll.
+ */
+function hideFixedElements(): void {
+  for (const el of Array.from(
+    document.querySelectorAll<HTMLElement>("body *")
+  )) {
+    const style = getComputedStyle(el);
+    const hide =
+      style.position === "fixed" ||
+      (style.position === "sticky" && isStuck(el, style));
+    const visibility = hiddenElements.get(el);
+
+    if (hide && visibility === undefined) {
+      hiddenElements.set(el, el.style.getPropertyValue("visibility"));
+      el.style.setProperty("visibility", "hidden", "important");
+    } else if (!hide && visibility !== undefined) {
+      showElement(el, visibility);
+      hiddenElements.delete(el);
+    }
+  }
+
+  log.debug(`Hid ${hiddenElements.size} fixed/sticky elements`);
+}
+
+function showFixedElements(): void {
+  for (const [el, visibility] of hiddenElements) {
+    showElement(el, visibility);
+  }
+  hiddenElements.clear();
+}
+
+/** Resolves after the next two frames, so the scrolled page is painted. */
+function waitForPaint(): Promise<void> {
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+  });
+}
+
+function handlePrepare(
+  _msg: ScreenshotPrepareMessage
+): Promise<PrepareResponse> {
+  savedScroll ??= { x: window.scrollX, y: window.scrollY };
+  return Promise.resolve({ success: true, metrics: getMetrics() });
+}
+
+async function handleScroll(
+  msg: ScreenshotScrollMessage
+): Promise<ScrollResponse> {
+  if (!msg.hideFixed) showFixedElements();
+
+  window.scrollTo({ left: msg.x, top: msg.y, behavior: "instant" });
+  await waitForPaint();
+
+  // Whether a sticky element is stuck depends on the new scroll position
+  if (msg.hideFixed) {
+    hideFixedElements();
+    await waitForPaint();
+  }
+
+  // The browser clamps the position at the end of the document
+  return { success: true, scrollX: window.scrollX, scrollY: window.scrollY };
+}
+
+async function handleRestore(
+  _msg: ScreenshotRestoreMessage
+): Promise<{ success: true }> {
+  showFixedElements();
+
+  if (savedScroll) {
+    window.scrollTo({
+      left: savedScroll.x,
+      top: savedScroll.y,
+      behavior: "instant",
+    });
+    savedScroll = null;
+    await waitForPaint();
+  }
+
+  return { success: true };
+}
+
+function handleFrameOffset(
+  msg: ScreenshotFrameOffsetMessage
+): Promise<FrameOffsetResponse> {
+  const frames = document.querySelectorAll<HTMLIFrameElement>("iframe, frame");
+
+  for (const frame of Array.from(frames)) {
+    if (browser.runtime.getFrameId(frame) !== msg.frameId) continue;
+
+    // The child's viewport starts inside the border and padding
+    const rect = frame.getBoundingClientRect();
+    const style = getComputedStyle(frame);
+    return Promise.resolve({
+      success: true,
+      x: rect.x + frame.clientLeft + parseFloat(style.paddingLeft),
+      y: rect.y + frame.clientTop + parseFloat(style.paddingTop),
+    });
+  }
+
+  return Promise.resolve({
+    success: false,
+    error: `Frame element not found: ${msg.frameId}`,
+    code: "no such frame",
+  });
+}
+
+// ============================================================================
+// Implementation - Initialization
+// ============================================================================
+
+function initScreenshot(): void {
+  registerHandler("SCREENSHOT_PREPARE", handlePrepare);
+  registerHandler("SCREENSHOT_SCROLL", handleScroll);
+  registerHandler("SCREENSHOT_RESTORE", handleRestore);
+  registerHandler("SCREENSHOT_FRAME_OFFSET", handleFrameOffset);
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { PageMetrics };
+export { initScreenshot };
@@ -0,0 +1,321 @@
+/**
+ * @fileoverview Script evaluation from the content script.
+ *
+ * Isolated scripts run with the content script's globals. Main-world scripts
+ * are compiled with the page's `Function` through `window.wrappedJSObject`
+ * and receive arguments rebuilt in the page, so element and handle
+ * references can be passed to either world. References are tagged with
+ * `__type` (`{ __type: "element", elementId }`, `{ __type: "handle", handle }`);
+ * any other object is passed as plain data. Results are serialized as remote
+ * values.
+ *
+ * @module content/script
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { registerHandler } from "./messaging.js";
+import { createContentLogger } from "./logger.js";
+import { getElement } from "./elements.js";
+import type { SerializeOptions } from "./serialize.js";
+import {
+  serializeRemoteValue,
+  hasHandle,
+  getHandle,
+  releaseHandle,
+} from "./serialize.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+declare global {
+  interface Window {
+    /** Page's view of the window (Firefox Xray waiver). */
+    wrappedJSObject: typeof globalThis;
+  }
+}
+
+type ScriptWorld = "main" | "isolated";
+
+interface ResultOptions {
+  maxDepth?: number;
+  resultOwnership?: "root" | "none";
+}
+
+interface ScriptEvaluateMessage extends ResultOptions {
+  type: "SCRIPT_EVALUATE";
+  script: string;
+  args: unknown[];
+  /** Wrap the script in an async function and await its result. */
+  async: boolean;
+  world: ScriptWorld;
+}
+
+interface ScriptCallFunctionMessage extends ResultOptions {
+  type: "SCRIPT_CALL_FUNCTION";
+  functionDeclaration: string;
+  this?: unknown;
+  args: unknown[];
+  awaitPromise: boolean;
+  world: ScriptWorld;
+}
+
+interface ScriptDisownMessage {
+  type: "SCRIPT_DISOWN";
+  handles: string[];
+}
+
+type ElementErrorResponse = Exclude<ReturnType<typeof getElement>, Element>;
+
+type ReferenceErrorResponse =
+  | ElementErrorResponse
+  | {
+      success: false;
+      error: string;
+      code: "no such handle";
+      data: Record<string, unknown>;
+    };
+
+type ScriptErrorResponse =
+  | {
+      success: false;
+      error: string;
+      code: "script error";
+      data: Record<string, unknown>;
+    }
+  | ReferenceErrorResponse;
+
+type ScriptResponse = { success: true; value: unknown } | ScriptErrorResponse;
+
+/** Element argument; `elementId` is from element.find or a node's `sharedId`. */
+interface ElementReference {
+  __type: "element";
+  elementId: string;
+}
+
+/** Object retained by a previous evaluation. */
+interface HandleReference {
+  __type: "handle";
+  handle: string;
+}
+
+type ScriptFunction = (...args: unknown[]) => unknown;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createContentLogger("Script");
+
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+function toErrorResponse(thrown: unknown): ScriptErrorResponse {
+  const error = (thrown ?? {}) as { message?: string; stack?: string };
+  const data: Record<string, unknown> = {};
+  if (typeof error.stack === "string" && error.stack) {
+    data.stack = error.stack;
+  }
+  return {
+    success: false,
+    error: `Script error: ${error.message || "Unknown error"}`,
+    code: "script error",
+    data,
+  };
+}
+
+function isElementReference(value: unknown): value is ElementReference {
+  if (typeof value !== "object" || value === null) return false;
+  const ref = value as Record<string, unknown>;
+  return ref.__type === "element" && typeof ref.elementId === "string";
+}
+
+function isHandleReference(value: unknown): value is HandleReference {
+  if (typeof value !== "object" || value === null) return false;
+  const ref = value as Record<string, unknown>;
+  return ref.__type === "handle" && typeof ref.handle === "string";
+}
+
+/**
+ * Replaces element and handle references with the objects they refer to.
+ *
+ * Arrays and objects are rebuilt in the target world, so referenced page
+ * objects keep their identity in main-world calls.
+ *
+ * @returns Resolved values, or the error of the first missing or stale
+ *   reference
+ */
+function resolveValues(
+  values: unknown[],
+  world: ScriptWorld
+): unknown[] | ReferenceErrorResponse {
+  const failures: ReferenceErrorResponse[] = [];
+  const page = window.wrappedJSObject;
+
+  const newArray = (): unknown[] =>
+    world === "main" ? new page.Array<unknown>() : [];
+  const newObject = (): Record<string, unknown> =>
+    world === "main" ? (new page.Object() as Record<string, unknown>) : {};
+
+  const resolve = (value: unknown): unknown => {
+    if (isElementReference(value)) {
+      const element = getElement(value.elementId);
+      if (element instanceof Element) return element;
+      failures.push(element);
+      return null;
+    }
+
+    if (isHandleReference(value)) {
+      if (hasHandle(value.handle)) return getHandle(value.handle);
+      failures.push({
+        success: false,
+        error: `No such handle: ${value.handle}`,
+        code: "no such handle",
+        data: { handle: value.handle },
+      });
+      return null;
+    }
+
+    if (Array.isArray(value)) {
+      const resolved = newArray();
+      for (const item of value) resolved.push(resolve(item));
+      return resolved;
+    }
+
+    if (typeof value === "object" && value !== null) {
+      const resolved = newObject();
+      for (const [key, item] of Object.entries(value)) {
+        resolved[key] = resolve(item);
+      }
+      return resolved;
+    }
+
+    return value;
+  };
+
+  const resolved = newArray();
+  for (const value of values) resolved.push(resolve(value));
+  return failures[0] ?? resolved;
+}
+
+/**
+ * Compiles a function body with the globals of the requested world.
+ */
+function compile(world: ScriptWorld, body: string): ScriptFunction {
+  if (world === "isolated") {
+    return new Function("...args", body) as ScriptFunction;
+  }
+  const page = window.wrappedJSObject;
+  return new page.Function("...args", body) as ScriptFunction;
+}
+
+function toResponse(value: unknown, options: ResultOptions): ScriptResponse {
+  const serializeOptions: SerializeOptions = {};
+  if (options.maxDepth !== undefined) {
+    serializeOptions.maxDepth = options.maxDepth;
+  }
+  if (options.resultOwnership !== undefined) {
+    serializeOptions.ownership = options.resultOwnership;
+  }
+  return {
+    success: true,
+    value: serializeRemoteValue(value, serializeOptions),
+  };
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Evaluates a script body in the main or isolated world.
+ *
+ * Element and handle references in arguments become live objects; the
+ * result is serialized as a remote value, with elements added to the shared
+ * store.
+ */
+async function handleEvaluate(
+  msg: ScriptEvaluateMessage
+): Promise<ScriptResponse> {
+  log.debug(
+    `evaluate: world=${msg.world}, scriptLength=${msg.script.length}, args=${msg.args.length}, async=${msg.async}`
+  );
+
+  const args = resolveValues(msg.args, msg.world);
+  if (!Array.isArray(args)) return args;
+
+  try {
+    const body = msg.async
+      ? `return (async () => { ${msg.script} })()`
+      : msg.script;
+    const fn = compile(msg.world, body);
+    const value: unknown = msg.async ? await fn(...args) : fn(...args);
+
+    return toResponse(value, msg);
+  } catch (err) {
+    return toErrorResponse(err);
+  }
+}
+
+/**
+ * Calls a function declaration with a `this` value and arguments, either of
+ * which may be handles from earlier evaluations.
+ */
+async function handleCallFunction(
+  msg: ScriptCallFunctionMessage
+): Promise<ScriptResponse> {
+  log.debug(
+    `callFunction: world=${msg.world}, declarationLength=${msg.functionDeclaration.length}, args=${msg.args.length}`
+  );
+
+  const resolved = resolveValues([msg.this, ...msg.args], msg.world);
+  if (!Array.isArray(resolved)) return resolved;
+  const [thisArg, ...args] = resolved;
+
+  try {
+    const fn = compile(
+      msg.world,
+      `return (${msg.functionDeclaration});`
+    )() as ScriptFunction;
+    if (typeof fn !== "function") {
+      throw new TypeError("functionDeclaration is not a function");
+    }
+
+    const result: unknown = fn.apply(thisArg, args);
+    const value: unknown = msg.awaitPromise ? await result : result;
+
+    return toResponse(value, msg);
+  } catch (err) {
+    return toErrorResponse(err);
+  }
+}
+
+function handleDisown(
+  msg: ScriptDisownMessage
+): Promise<{ success: true; released: number }> {
+  const released = msg.handles.filter(releaseHandle).length;
+
+  log.debug(`disown: handles=${msg.handles.length}, released=${released}`);
+
+  return Promise.resolve({ success: true, released });
+}
+
+// ============================================================================
+// Implementation - Initialization
+// ============================================================================
+
+function initScript(): void {
+  registerHandler("SCRIPT_EVALUATE", handleEvaluate);
+  registerHandler("SCRIPT_CALL_FUNCTION", handleCallFunction);
+  registerHandler("SCRIPT_DISOWN", handleDisown);
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { initScript };
@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Remote value serialization, modeled on WebDriver BiDi
+ * `RemoteValue`.
+ *
+ * Values that do not survive structured cloning (Maps, Sets, Dates, BigInts,
+ * special numbers, cycles, errors, DOM nodes) are described as typed JSON.
+ * Type checks use `Object.prototype.toString` tags because page objects seen
+ * through Xray wrappers fail cross-compartment `instanceof`.
+ *
+ * @module content/serialize
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { generateUUID } from "../core/utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type RemoteValueType =
+  | "undefined"
+  | "null"
+  | "string"
+  | "number"
+  | "boolean"
+  | "bigint"
+  | "symbol"
+  | "function"
+  | "array"
+  | "object"
+  | "map"
+  | "set"
+  | "date"
+  | "regexp"
+  | "error"
+  | "promise"
+  | "weakmap"
+  | "weakset"
+  | "arraybuffer"
+  | "typedarray"
+  | "node"
+  | "nodelist"
+  | "htmlcollection"
+  | "window";
+
+interface RemoteValue {
+  type: RemoteValueType;
+  value?: unknown;
+  /** Retained object, usable until released or the document unloads. */
+  handle?: string;
+  /** Set on objects referenced more than once; repeats carry only this. */
+  internalId?: string;
+  /** Element store ID of an element node. */
+  sharedId?: string;
+}
+
+interface SerializeOptions {
+  /** Container levels whose contents are serialized (default 10). */
+  maxDepth?: number;
+  /** `root` retains the top-level object and returns its handle. */
+  ownership?: "root" | "none";
+}
+
+interface SerializeState {
+  maxDepth: number;
+  seen: Map<object, RemoteValue>;
+  nextInternalId: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_MAX_DEPTH = 10;
+
+/** `Object.prototype.toString` tags of leaf object types. */
+const TAGGED_TYPES: Record<string, RemoteValueType> = {
+  "[object Date]": "date",
+  "[object RegExp]": "regexp",
+  "[object Error]": "error",
+  "[object Promise]": "promise",
+  "[object WeakMap]": "weakmap",
+  "[object WeakSet]": "weakset",
+  "[object ArrayBuffer]": "arraybuffer",
+  "[object Window]": "window",
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+const handles = new Map<string, unknown>();
+let elementStoreRef: Map<string, Element> | null = null;
+
+// ============================================================================
+// Implementation - Handles
+// ============================================================================
+
+function retainHandle(value: unknown): string {
+  const handle = generateUUID();
+  handles.set(handle, value);
+  return handle;
+}
+
+function hasHandle(handle: string): boolean {
+  return handles.has(handle);
+}
+
+function getHandle(handle: string): unknown {
+  return handles.get(handle);
+}
+
+function releaseHandle(handle: string): boolean {
+  return handles.delete(handle);
+}
+
+// ============================================================================
+// Implementation - Serialization
+// ============================================================================
+
+function serializeNumber(value: number): RemoteValue {
+  if (Number.isNaN(value)) return { type: "number", value: "NaN" };
+  if (Object.is(value, -0)) return { type: "number", value: "-0" };
+  if (value === Infinity) return { type: "number", value: "Infinity" };
+  if (value === -Infinity) return { type: "number", value: "-Infinity" };
+  return { type: "number", value };
+}
+
+function storeElement(element: Element): string | undefined {
+  if (!elementStoreRef) return undefined;
+  for (const [elementId, stored] of elementStoreRef) {
+    if (stored === element) return elementId;
+  }
+  const elementId = generateUUID();
+  elementStoreRef.set(elementId, element);
+  return elementId;
+}
+
+function describeNode(node: Node, remote: RemoteValue): void {
+  const value: Record<string, unknown> = {
+    nodeType: node.nodeType,
+    nodeName: node.nodeName,
+    childNodeCount: node.childNodes.length,
+  };
+
+  if (node instanceof Element) {
+    const sharedId = storeElement(node);
+    if (sharedId) remote.sharedId = sharedId;
+
+    value.localName = node.localName;
+    value.namespaceURI = node.namespaceURI;
+    value.attributes = Object.fromEntries(
+      Array.from(node.attributes).map((attr) => [attr.name, attr.value])
+    );
+  } else if (node.nodeType === Node.TEXT_NODE) {
+    value.nodeValue = node.nodeValue;
+  }
+
+  remote.value = value;
+}
+
+function serializeEntries(
+  entries: Array<[unknown, unknown]>,
+  depth: number,
+  state: SerializeState
+): Array<[string | RemoteValue, RemoteValue]> {
+  return entries.map(([key, item]) => [
+    typeof key === "string" ? key : serialize(key, depth, state),
+    serialize(item, depth, state),
+  ]);
+}
+
+function serialize(
+  value: unknown,
+  depth: number,
+  state: SerializeState
+): RemoteValue {
+  switch (typeof value) {
+    case "undefined":
+      return { type: "undefined" };
+    case "string":
+      return { type: "string", value };
+    case "number":
+      return serializeNumber(value);
+    case "boolean":
+      return { type: "boolean", value };
+    case "bigint":
+      return { type: "bigint", value: value.toString() };
+    case "symbol":
+      return { type: "symbol" };
+    default:
+      break;
+  }
+  if (value === null) return { type: "null" };
+
+  const obj = value as object;
+  const seen = state.seen.get(obj);
+  if (seen) {
+    seen.internalId ??= String(++state.nextInternalId);
+    return { type: seen.type, internalId: seen.internalId };
+  }
+
+  const tag = Object.prototype.toString.call(obj);
+  const remote: RemoteValue = { type: "object" };
+  state.seen.set(obj, remote);
+
+  if (typeof obj === "function") {
+    remote.type = "function";
+    return remote;
+  }
+
+  if (obj instanceof Node) {
+    remote.type = "node";
+    describeNode(obj, remote);
+    return remote;
+  }
+
+  const tagged = TAGGED_TYPES[tag];
+  if (tagged) {
+    remote.type = tagged;
+    if (tagged === "date") {
+      const time = Date.prototype.getTime.call(obj);
+      remote.value = Number.isNaN(time)
+        ? "Invalid Date"
+        : Date.prototype.toISOString.call(obj);
+    } else if (tagged === "regexp") {
+      const regexp = obj as RegExp;
+      remote.value = { pattern: regexp.source, flags: regexp.flags };
+    }
+    return remote;
+  }
+
+  if (ArrayBuffer.isView(obj)) {
+    remote.type = "typedarray";
+    return remote;
+  }
+
+  if (Array.isArray(obj)) {
+    remote.type = "array";
+  } else if (obj instanceof NodeList) {
+    remote.type = "nodelist";
+  } else if (obj instanceof HTMLCollection) {
+    remote.type = "htmlcollection";
+  } else if (tag === "[object Map]") {
+    remote.type = "map";
+  } else if (tag === "[object Set]") {
+    remote.type = "set";
+  }
+
+  // Contents beyond the depth limit are omitted
+  if (depth >= state.maxDepth) return remote;
+  const next = depth + 1;
+
+  switch (remote.type) {
+    case "array":
+    case "nodelist":
+    case "htmlcollection":
+      remote.value = Array.from(obj as ArrayLike<unknown>).map((item) =>
+        serialize(item, next, state)
+      );
+      break;
+    case "map":
+      remote.value = serializeEntries(
+        Array.from(Map.prototype.entries.call(obj as Map<unknown, unknown>)),
+        next,
+        state
+      );
+      break;
+    case "set":
+      remote.value = Array.from(
+        Set.prototype.values.call(obj as Set<unknown>)
+      ).map((item) => serialize(item, next, state));
+      break;
+    default:
+      remote.value = serializeEntries(Object.entries(obj), next, state);
+  }
+
+  return remote;
+}
+
+/**
+ * Serializes a value into a `RemoteValue`.
+ *
+ * @param value - Value from either world
+ * @param options - Depth limit and handle ownership
+ * @returns Remote value description
+ */
+function serializeRemoteValue(
+  value: unknown,
+  options: SerializeOptions = {}
+): RemoteValue {
+  const { maxDepth = DEFAULT_MAX_DEPTH, ownership = "none" } = options;
+
+  const remote = serialize(value, 0, {
+    maxDepth,
+    seen: new Map(),
+    nextInternalId: 0,
+  });
+
+  const isObject =
+    (typeof value === "object" && value !== null) ||
+    typeof value === "function";
+  if (ownership === "root" && isObject) {
+    remote.handle = retainHandle(value);
+  }
+
+  return remote;
+}
+
+// ============================================================================
+// Implementation - Initialization
+// ============================================================================
+
+function initSerialize(elementStore: Map<string, Element>): void {
+  elementStoreRef = elementStore;
+
+  window.addEventListener("beforeunload", () => {
+    handles.clear();
+  });
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { RemoteValue, RemoteValueType, SerializeOptions };
+export {
+  initSerialize,
+  serializeRemoteValue,
+  hasHandle,
+  getHandle,
+  releaseHandle,
+};
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Binary attachments for large results and event payloads.
+ *
+ * Handlers return an `Attachment` instead of a base64 string. By default it
+ * serializes to base64 (unchanged wire format). When the driver enables
+ * binary attachments, the session replaces it with a reference and streams
+ * the bytes as binary WebSocket frames. An attachment cut off by a dropped
+ * connection is streamed again from `seq` 0 after the session resumes.
+ *
+ * Binary frame layout:
+ *
+ *     [uint32 BE header length][UTF-8 JSON header][payload bytes]
+ *
+ * where the header is `{ "id": string, "seq": number, "last": boolean }`.
+ *
+ * @module core/attachments
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { generateUUID } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** JSON placeholder for an attachment sent as binary frames. */
+interface AttachmentRef {
+  $attachment: string;
+  mimeType: string;
+  size: number;
+  chunks: number;
+}
+
+/** Header of a binary attachment frame. */
+interface ChunkHeader {
+  id: string;
+  seq: number;
+  last: boolean;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Binary payload carried in a result or event.
+ *
+ * @example
+ *     return { data: Attachment.fromBase64(base64Data, "image/png") };
+ */
+class Attachment {
+  /** Attachment id used in references and frame headers. */
+  readonly id = generateUUID();
+
+  private bytes: Uint8Array | null;
+  private base64: string | null;
+
+  private constructor(
+    readonly mimeType: string,
+    bytes: Uint8Array | null,
+    base64: string | null
+  ) {
+    this.bytes = bytes;
+    this.base64 = base64;
+  }
+
+  /**
+   * Creates an attachment from raw bytes.
+   *
+   * @param bytes - Payload
+   * @param mimeType - Payload MIME type
+   */
+  static fromBytes(bytes: Uint8Array, mimeType: string): Attachment {
+    return new Attachment(mimeType, bytes, null);
+  }
+
+  /**
+   * Creates an attachment from base64 data.
+   *
+   * @param base64 - Base64 payload
+   * @param mimeType - Payload MIME type
+   */
+  static fromBase64(base64: string, mimeType: string): Attachment {
+    return new Attachment(mimeType, null, base64);
+  }
+
+  /** Payload size in bytes. */
+  get size(): number {
+    return this.toBytes().length;
+  }
+
+  /**
+   * Gets the payload as bytes (decoded once, then cached).
+   *
+   * @returns Payload bytes
+   */
+  toBytes(): Uint8Array {
+    if (this.bytes === null) {
+      const binary = atob(this.base64 ?? "");
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      this.bytes = bytes;
+    }
+    return this.bytes;
+  }
+
+  /**
+   * Gets the payload as base64 (encoded once, then cached).
+   *
+   * @returns Base64 payload
+   */
+  toBase64(): string {
+    if (this.base64 === null) {
+      const bytes = this.bytes ?? new Uint8Array(0);
+      let binary = "";
+      // Chunked to stay under the argument limit of String.fromCharCode
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      this.base64 = btoa(binary);
+    }
+    return this.base64;
+  }
+
+  /**
+   * Builds the JSON placeholder for binary transfer.
+   *
+   * @param chunkSize - Bytes per frame
+   * @returns Attachment reference
+   */
+  toReference(chunkSize: number): AttachmentRef {
+    const size = this.size;
+    return {
+      $attachment: this.id,
+      mimeType: this.mimeType,
+      size,
+      chunks: Math.max(1, Math.ceil(size / chunkSize)),
+    };
+  }
+
+  /** Serializes as base64 when binary attachments are not enabled. */
+  toJSON(): string {
+    return this.toBase64();
+  }
+}
+
+/**
+ * Replaces attachments in a value with references.
+ *
+ * @param value - Result or event params
+ * @param chunkSize - Bytes per frame
+ * @param found - Receives the attachments that were replaced
+ * @returns Copy of value with attachments replaced
+ */
+function extractAttachments(
+  value: unknown,
+  chunkSize: number,
+  found: Attachment[]
+): unknown {
+  if (value instanceof Attachment) {
+    found.push(value);
+    return value.toReference(chunkSize);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => extractAttachments(item, chunkSize, found));
+  }
+  if (typeof value === "object" && value !== null) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = extractAttachments(item, chunkSize, found);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Encodes one binary attachment frame.
+ *
+ * @param header - Frame header
+ * @param payload - Chunk bytes
+ * @returns Frame bytes
+ */
+function encodeChunkFrame(
+  header: ChunkHeader,
+  payload: Uint8Array
+): Uint8Array {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const frame = new Uint8Array(4 + headerBytes.length + payload.length);
+  new DataView(frame.buffer).setUint32(0, headerBytes.length);
+  frame.set(headerBytes, 4);
+  frame.set(payload, 4 + headerBytes.length);
+  return frame;
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { AttachmentRef, ChunkHeader };
+export { Attachment, extractAttachments, encodeChunkFrame };
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Shared-key authentication of WEBDRIVER_INIT and READY.
+ *
+ * The driver writes `webdriver-auth.json` (`{ "key": "<hex>" }`, at least
+ * 32 bytes) into the extension directory when it prepares the profile. Init
+ * messages must carry an HMAC-SHA256 proof made with that key; READY carries
+ * the extension's proof back so the driver knows it reached this extension.
+ * READY is sent on every connection, including reconnects, and the driver
+ * must answer its nonce before any command is dispatched, so a process that
+ * took over the port after a drop cannot drive the browser.
+ *
+ * @module core/auth
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { AuthProof } from "../types/index.js";
+import { ErrorCode } from "../types/index.js";
+
+import { WebDriverError } from "./errors.js";
+import { createLogger } from "./logger.js";
+import { generateUUID } from "./utils.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Key file written into the extension directory by the driver. */
+const AUTH_KEY_FILE = "webdriver-auth.json";
+
+const MIN_KEY_BYTES = 32;
+const MIN_NONCE_LENGTH = 16;
+
+/** Init nonces remembered to reject replays. */
+const MAX_SEEN_NONCES = 1024;
+
+const log = createLogger("Auth");
+
+// ============================================================================
+// State
+// ============================================================================
+
+let keyPromise: Promise<CryptoKey> | null = null;
+const seenNonces = new Set<string>();
+
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+function authError(message: string): WebDriverError {
+  return new WebDriverError(ErrorCode.SessionNotCreated, message);
+}
+
+async function loadKey(): Promise<CryptoKey> {
+  let hex: unknown;
+  try {
+    const response = await fetch(browser.runtime.getURL(AUTH_KEY_FILE));
+    hex = ((await response.json()) as { key?: unknown }).key;
+  } catch {
+    throw authError(`Authentication key not installed (${AUTH_KEY_FILE})`);
+  }
+
+  const bytes = typeof hex === "string" ? hexToBytes(hex) : null;
+  if (!bytes || bytes.length < MIN_KEY_BYTES) {
+    throw authError(
+      `Authentication key must be at least ${MIN_KEY_BYTES} hex-encoded bytes`
+    );
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    bytes,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Gets the shared key, loading it on first use.
+ *
+ * A failed load is retried on the next call.
+ */
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = loadKey().catch((err: unknown) => {
+      keyPromise = null;
+      throw err;
+    });
+  }
+  return keyPromise;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Verifies the driver's proof in a WEBDRIVER_INIT message.
+ *
+ * @param sessionId - Session ID from init message
+ * @param wsUrl - WebSocket URL from init message
+ * @param proof - Driver's proof
+ * @returns The verified proof
+ * @throws WebDriverError (`session not created`) if the proof is missing,
+ *   reused or wrong, or no key is installed
+ */
+async function verifyInit(
+  sessionId: number,
+  wsUrl: string,
+  proof: AuthProof | undefined
+): Promise<AuthProof> {
+  if (!proof || proof.nonce.length < MIN_NONCE_LENGTH) {
+    throw authError("WEBDRIVER_INIT is not authenticated");
+  }
+  if (seenNonces.has(proof.nonce)) {
+    throw authError("WEBDRIVER_INIT nonce was already used");
+  }
+
+  const key = await getKey();
+  const mac = hexToBytes(proof.mac);
+  const valid =
+    mac !== null &&
+    (await crypto.subtle.verify(
+      "HMAC",
+      key,
+      mac,
+      new TextEncoder().encode(`init:${sessionId}:${wsUrl}:${proof.nonce}`)
+    ));
+
+  if (!valid) {
+    log.warn("Rejected WEBDRIVER_INIT with invalid proof", { wsUrl });
+    throw authError("WEBDRIVER_INIT authentication failed");
+  }
+
+  seenNonces.add(proof.nonce);
+  if (seenNonces.size > MAX_SEEN_NONCES) {
+    const oldest = seenNonces.values().next().value;
+    if (oldest !== undefined) seenNonces.delete(oldest);
+  }
+
+  return proof;
+}
+
+/**
+ * Creates the extension's proof for the READY handshake.
+ *
+ * @param sessionId - Session ID
+ * @param driverNonce - Nonce from the driver's init proof
+ * @returns Extension's proof
+ */
+async function signReady(
+  sessionId: number,
+  driverNonce: string
+): Promise<AuthProof> {
+  const key = await getKey();
+  const nonce = generateUUID();
+  const mac = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`ready:${sessionId}:${driverNonce}:${nonce}`)
+  );
+  return { nonce, mac: bytesToHex(mac) };
+}
+
+/**
+ * Verifies the driver's answer to the READY nonce of a connection.
+ *
+ * @param sessionId - Session ID
+ * @param readyNonce - Nonce sent in this connection's READY
+ * @param mac - Driver's hex HMAC of `connect:<sessionId>:<readyNonce>`
+ * @throws WebDriverError (`session not created`) if the proof is wrong
+ */
+async function verifyConnect(
+  sessionId: number,
+  readyNonce: string,
+  mac: string
+): Promise<void> {
+  const key = await getKey();
+  const bytes = hexToBytes(mac);
+  const valid =
+    bytes !== null &&
+    (await crypto.subtle.verify(
+      "HMAC",
+      key,
+      bytes,
+      new TextEncoder().encode(`connect:${sessionId}:${readyNonce}`)
+    ));
+
+  if (!valid) {
+    log.warn("Rejected connection with invalid proof", { sessionId });
+    throw authError("Connection authentication failed");
+  }
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { verifyInit, signReady, verifyConnect };
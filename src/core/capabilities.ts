@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Protocol version and capability negotiation.
+ * @module core/capabilities
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { Capabilities } from "../types/index.js";
+import {
+  ErrorCode,
+  PROTOCOL_VERSION,
+  SELECTOR_STRATEGIES,
+} from "../types/index.js";
+
+import { WebDriverError } from "./errors.js";
+import { registry } from "./registry.js";
+import { compareVersions } from "./utils.js";
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Builds the capabilities advertised to the driver.
+ *
+ * @returns Protocol version, commands with parameter schemas, strategies and events
+ */
+function getCapabilities(): Capabilities {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    extensionVersion: browser.runtime.getManifest().version,
+    methods: registry.getMethods().map((method) => ({
+      method,
+      params: registry.getSchema(method) ?? {},
+    })),
+    strategies: SELECTOR_STRATEGIES,
+    events: registry.getEvents(),
+  };
+}
+
+/**
+ * Checks whether this extension satisfies a driver's minimum version.
+ *
+ * Compatible when the major versions match and the extension is not older
+ * than the requested version.
+ *
+ * @param minVersion - Minimum protocol version requested by the driver
+ * @returns True if compatible
+ */
+function isProtocolCompatible(minVersion: string): boolean {
+  const requiredMajor = parseInt(minVersion.split(".")[0] ?? "", 10);
+  const currentMajor = parseInt(PROTOCOL_VERSION.split(".")[0] ?? "", 10);
+
+  return (
+    requiredMajor === currentMajor &&
+    compareVersions(PROTOCOL_VERSION, minVersion) >= 0
+  );
+}
+
+/**
+ * Throws if this extension does not satisfy a driver's minimum version.
+ *
+ * @param minVersion - Minimum protocol version requested by the driver
+ * @throws WebDriverError (`unsupported protocol`) if incompatible
+ */
+function assertProtocolCompatible(minVersion: string): void {
+  if (!isProtocolCompatible(minVersion)) {
+    throw new WebDriverError(
+      ErrorCode.UnsupportedProtocol,
+      `Unsupported protocol version: driver requires ${minVersion}, extension implements ${PROTOCOL_VERSION}`,
+      { required: minVersion, current: PROTOCOL_VERSION }
+    );
+  }
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { getCapabilities, isProtocolCompatible, assertProtocolCompatible };
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Typed errors reported to the driver.
+ * @module core/errors
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { ErrorCode } from "../types/index.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Extra machine-readable details attached to an error response. */
+type ErrorData = Record<string, unknown>;
+
+/** Failure response returned by content script message handlers. */
+interface ContentErrorResponse {
+  success: boolean;
+  error?: string;
+  code?: string;
+  data?: ErrorData;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ERROR_CODES: ReadonlySet<string> = new Set(Object.values(ErrorCode));
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Error carrying the `ErrorCode` reported to the driver.
+ *
+ * @example
+ *     throw new WebDriverError(ErrorCode.NoSuchFrame, "No frame at index 2", {
+ *       index: 2,
+ *     });
+ */
+class WebDriverError extends Error {
+  /** Error code sent as `error` in the response. */
+  readonly code: ErrorCode;
+  /** Optional details sent as `data` in the response. */
+  readonly data: ErrorData | undefined;
+
+  /**
+   * @param code - Error code
+   * @param message - Human-readable message
+   * @param data - Optional details (selector, frameId, page stack, ...)
+   */
+  constructor(code: ErrorCode, message: string, data?: ErrorData) {
+    super(message);
+    this.name = "WebDriverError";
+    this.code = code;
+    this.data = data;
+  }
+
+  /**
+   * Builds an error from a failed content script response.
+   *
+   * @param response - Content script response (may be undefined)
+   * @param fallbackMessage - Message used when the response has none
+   * @param fallbackCode - Code used when the response has none or an unknown one
+   * @returns WebDriverError
+   */
+  static fromContentResponse(
+    response: ContentErrorResponse | undefined,
+    fallbackMessage: string,
+    fallbackCode: ErrorCode = ErrorCode.ScriptError
+  ): WebDriverError {
+    const code = isErrorCode(response?.code) ? response.code : fallbackCode;
+    return new WebDriverError(
+      code,
+      response?.error || fallbackMessage,
+      response?.data
+    );
+  }
+}
+
+/**
+ * Checks whether a value is a known error code.
+ *
+ * @param value - Value to check
+ * @returns True if value is an ErrorCode
+ */
+function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === "string" && ERROR_CODES.has(value);
+}
+
+/**
+ * Normalizes any thrown value to a WebDriverError.
+ *
+ * Aborted and expired requests become `timeout`; anything else that is not
+ * already a WebDriverError becomes `unknown error`.
+ *
+ * @param err - Thrown value
+ * @returns WebDriverError
+ */
+function toWebDriverError(err: unknown): WebDriverError {
+  if (err instanceof WebDriverError) {
+    return err;
+  }
+  if (
+    err instanceof DOMException &&
+    (err.name === "AbortError" || err.name === "TimeoutError")
+  ) {
+    return new WebDriverError(ErrorCode.Timeout, err.message);
+  }
+  if (err instanceof Error) {
+    return new WebDriverError(ErrorCode.UnknownError, err.message);
+  }
+  return new WebDriverError(ErrorCode.UnknownError, String(err));
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { ErrorData, ContentErrorResponse };
+export { WebDriverError, isErrorCode, toWebDriverError };
@@ -7,7 +7,7 @@
 // Registry
 // ============================================================================
 
-export type { Handler } from "./registry.js";
+export type { Handler, DispatchCall, Middleware } from "./registry.js";
 
 export { registry } from "./registry.js";
 
@@ -15,9 +15,88 @@ export { registry } from "./registry.js";
 // Session
 // ============================================================================
 
-export type { DebugState } from "./session.js";
+export type {
+  SessionConnectOptions,
+  SessionHooks,
+  SessionStats,
+  TransferOptions,
+} from "./session.js";
 
-export { session } from "./session.js";
+export { Session } from "./session.js";
+
+export type {
+  ConnectOptions,
+  DebugState,
+  ResumeStateProvider,
+  SessionEndedListener,
+} from "./session-manager.js";
+
+export { sessions } from "./session-manager.js";
+
+// ============================================================================
+// Subscriptions
+// ============================================================================
+
+export type { EventSubscription, EventFilter } from "./subscriptions.js";
+
+export { EventSubscriptions, coversEvent } from "./subscriptions.js";
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+export type { MethodMetrics } from "./middleware.js";
+
+export {
+  sessionScopeMiddleware,
+  timingMiddleware,
+  auditMiddleware,
+  contentRetryMiddleware,
+  getDispatchMetrics,
+  clearDispatchMetrics,
+} from "./middleware.js";
+
+// ============================================================================
+// Attachments
+// ============================================================================
+
+export type { AttachmentRef, ChunkHeader } from "./attachments.js";
+
+export {
+  Attachment,
+  extractAttachments,
+  encodeChunkFrame,
+} from "./attachments.js";
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type { ErrorData, ContentErrorResponse } from "./errors.js";
+
+export { WebDriverError, isErrorCode, toWebDriverError } from "./errors.js";
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export { validateParams } from "./validation.js";
+
+// ============================================================================
+// Auth
+// ============================================================================
+
+export { verifyInit, signReady, verifyConnect } from "./auth.js";
+
+// ============================================================================
+// Capabilities
+// ============================================================================
+
+export {
+  getCapabilities,
+  isProtocolCompatible,
+  assertProtocolCompatible,
+} from "./capabilities.js";
 
 // ============================================================================
 // Logger
@@ -39,4 +118,9 @@ export {
 // Utils
 // ============================================================================
 
-export { generateUUID, patternToRegex } from "./utils.js";
+export {
+  generateUUID,
+  patternToRegex,
+  compareVersions,
+  raceAbort,
+} from "./utils.js";
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Built-in dispatch middleware.
+ * @module core/middleware
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { DispatchCall, Middleware } from "./registry.js";
+import { ErrorCode } from "../types/index.js";
+
+import { createLogger } from "./logger.js";
+import { WebDriverError, toWebDriverError } from "./errors.js";
+import { sessions } from "./session-manager.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Per-method dispatch timing. */
+interface MethodMetrics {
+  calls: number;
+  errors: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const log = createLogger("Dispatch");
+
+/** Retries for content scripts that are not injected yet. */
+const CONTENT_RETRY_ATTEMPTS = 3;
+
+/** Base delay between content script retries (multiplied by attempt). */
+const CONTENT_RETRY_DELAY_MS = 100;
+
+/** Error raised by tabs.sendMessage when no content script is listening. */
+const CONTENT_NOT_READY_MESSAGE = "Could not establish connection";
+
+/** Commands in this namespace never act on their context tab. */
+const SESSION_NAMESPACE = "session.";
+
+// ============================================================================
+// State
+// ============================================================================
+
+const metrics = new Map<string, MethodMetrics>();
+
+// ============================================================================
+// Implementation - Timing
+// ============================================================================
+
+function recordTiming(call: DispatchCall, failed: boolean): number {
+  const elapsed = Date.now() - call.startTime;
+  const entry = metrics.get(call.method) ?? {
+    calls: 0,
+    errors: 0,
+    totalMs: 0,
+    maxMs: 0,
+  };
+
+  entry.calls++;
+  if (failed) entry.errors++;
+  entry.totalMs += elapsed;
+  entry.maxMs = Math.max(entry.maxMs, elapsed);
+  metrics.set(call.method, entry);
+
+  return elapsed;
+}
+
+/** Records per-method timing metrics. */
+const timingMiddleware: Middleware = {
+  name: "timing",
+  after: (call) => {
+    const elapsed = recordTiming(call, false);
+    log.debug(`${call.method}: completed in ${elapsed}ms`);
+  },
+  error: (call) => {
+    const elapsed = recordTiming(call, true);
+    log.debug(`${call.method}: failed after ${elapsed}ms`);
+  },
+};
+
+/**
+ * Gets per-method timing metrics.
+ *
+ * @returns Metrics keyed by method name
+ */
+function getDispatchMetrics(): Record<string, MethodMetrics> {
+  return Object.fromEntries(
+    Array.from(metrics.entries(), ([method, entry]) => [method, { ...entry }])
+  );
+}
+
+/** Clears timing metrics. */
+function clearDispatchMetrics(): void {
+  metrics.clear();
+}
+
+// ============================================================================
+// Implementation - Audit
+// ============================================================================
+
+/** Logs every command with its target and outcome. */
+const auditMiddleware: Middleware = {
+  name: "audit",
+  after: (call) => {
+    log.debug(
+      `${call.method} ok (tab=${call.context.tabId}, frame=${call.context.frameId}, attempts=${call.attempt + 1})`
+    );
+  },
+  error: (call, err) => {
+    const error = toWebDriverError(err);
+    log.debug(
+      `${call.method} ${error.code} (tab=${call.context.tabId}, frame=${call.context.frameId}, attempts=${call.attempt + 1}): ${error.message}`
+    );
+  },
+};
+
+// ============================================================================
+// Implementation - Retry
+// ============================================================================
+
+/**
+ * Retries commands that hit a frame whose content script is not ready yet,
+ * e.g. right after navigation.
+ */
+const contentRetryMiddleware: Middleware = {
+  name: "contentRetry",
+  retry: async (call, err) => {
+    if (call.attempt >= CONTENT_RETRY_ATTEMPTS || call.context.signal.aborted) {
+      return false;
+    }
+
+    const message = err instanceof Error ? err.message : String(err);
+    if (!message.includes(CONTENT_NOT_READY_MESSAGE)) {
+      return false;
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, CONTENT_RETRY_DELAY_MS * (call.attempt + 1))
+    );
+    return !call.context.signal.aborted;
+  },
+};
+
+// ============================================================================
+// Implementation - Session Scope
+// ============================================================================
+
+/**
+ * Rejects commands targeting a tab owned by another session, and claims
+ * unowned tabs for the session commanding them. `session.*` commands do not
+ * act on their context tab and claim nothing.
+ */
+const sessionScopeMiddleware: Middleware = {
+  name: "sessionScope",
+  before: (call) => {
+    const { sessionId, tabId } = call.context;
+    if (!sessions.canAccessTab(sessionId, tabId)) {
+      throw new WebDriverError(
+        ErrorCode.NoSuchTab,
+        `Tab ${tabId} belongs to another session`,
+        { tabId }
+      );
+    }
+    if (!call.method.startsWith(SESSION_NAMESPACE)) {
+      sessions.claimTab(sessionId, tabId);
+    }
+  },
+};
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { MethodMetrics };
+export {
+  sessionScopeMiddleware,
+  timingMiddleware,
+  auditMiddleware,
+  contentRetryMiddleware,
+  getDispatchMetrics,
+  clearDispatchMetrics,
+};
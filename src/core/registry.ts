@@ -7,9 +7,13 @@
 // Imports
 // ============================================================================
 
-import type { RequestContext } from "../types/index.js";
+import type { ParamSchema, RequestContext } from "../types/index.js";
 
+import { ErrorCode } from "../types/index.js";
+
+import { WebDriverError } from "./errors.js";
 import { createLogger } from "./logger.js";
+import { validateParams } from "./validation.js";
 
 // ============================================================================
 // Types
@@ -18,6 +22,40 @@ import { createLogger } from "./logger.js";
 /** Handler function signature. */
 type Handler = (params: unknown, context: RequestContext) => Promise<unknown>;
 
+/** A single command dispatch as seen by middleware. */
+interface DispatchCall {
+  /** Method name. */
+  readonly method: string;
+  /** Command parameters, validated before the `before` hooks run. */
+  readonly params: unknown;
+  /** Request context. */
+  readonly context: RequestContext;
+  /** Dispatch start time (ms since epoch). */
+  readonly startTime: number;
+  /** Retry attempt, 0 for the first call. */
+  attempt: number;
+}
+
+/**
+ * Cross-cutting hooks run around every handler.
+ *
+ * Hooks run in registration order. `before` may throw to reject the call,
+ * `retry` returns true to run the handler again, and `error` runs once when
+ * the dispatch finally fails and may throw to replace the error.
+ */
+interface Middleware {
+  /** Name used in logs. */
+  name: string;
+  /** Runs before the handler. */
+  before?: (call: DispatchCall) => void | Promise<void>;
+  /** Runs after the handler succeeds. */
+  after?: (call: DispatchCall, result: unknown) => void | Promise<void>;
+  /** Runs when the handler throws; return true to retry. */
+  retry?: (call: DispatchCall, error: unknown) => boolean | Promise<boolean>;
+  /** Runs when a `before` hook or the last handler attempt throws. */
+  error?: (call: DispatchCall, error: unknown) => void | Promise<void>;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -33,30 +71,60 @@ const log = createLogger("Registry");
  */
 class HandlerRegistry {
   private readonly handlers = new Map<string, Handler>();
+  private readonly schemas = new Map<string, ParamSchema>();
+  private readonly events = new Set<string>();
+  private readonly middlewares: Middleware[] = [];
 
   /**
    * Registers a handler for a method.
    *
    * @param method - Method name in module.methodName format
    * @param handler - Handler function
+   * @param schema - Parameter schema, validated before dispatch and advertised to the driver
    * @throws Error if method already registered
    */
-  register(method: string, handler: Handler): void {
+  register(method: string, handler: Handler, schema: ParamSchema = {}): void {
     if (this.handlers.has(method)) {
       throw new Error(`Handler already registered: ${method}`);
     }
     this.handlers.set(method, handler);
+    this.schemas.set(method, schema);
     log.debug(`Registered: ${method}`);
   }
 
+  /**
+   * Declares an event the extension may emit.
+   *
+   * @param event - Event name in module.eventName format
+   */
+  registerEvent(event: string): void {
+    this.events.add(event);
+  }
+
+  /**
+   * Adds a middleware to the dispatch pipeline.
+   *
+   * @param middleware - Middleware hooks
+   */
+  use(middleware: Middleware): void {
+    this.middlewares.push(middleware);
+    log.debug(`Middleware added: ${middleware.name}`);
+  }
+
   /**
    * Dispatches a command to its handler.
    *
+   * Parameters are validated against the method's schema first, then the
+   * handler runs inside the middleware pipeline. Every failure of a
+   * registered method, including invalid parameters, passes through the
+   * `error` hooks once; unknown methods are rejected before the pipeline.
+   *
    * @param method - Method name in module.methodName format
    * @param params - Command parameters
    * @param context - Request context (tabId, frameId)
    * @returns Handler result
-   * @throws Error if method not registered
+   * @throws WebDriverError (`unknown command`) if method not registered
+   * @throws WebDriverError (`invalid argument`) if params do not match the schema
    */
   async dispatch(
     method: string,
@@ -65,9 +133,39 @@ class HandlerRegistry {
   ): Promise<unknown> {
     const handler = this.handlers.get(method);
     if (!handler) {
-      throw new Error(`Unknown method: ${method}`);
+      throw new WebDriverError(
+        ErrorCode.UnknownCommand,
+        `Unknown method: ${method}`,
+        { method }
+      );
     }
-    return handler(params, context);
+    const call: DispatchCall = {
+      method,
+      params,
+      context,
+      startTime: Date.now(),
+      attempt: 0,
+    };
+
+    let result: unknown;
+    try {
+      validateParams(params, this.schemas.get(method) ?? {});
+      for (const middleware of this.middlewares) {
+        await middleware.before?.(call);
+      }
+      result = await this.invoke(handler, call);
+    } catch (err) {
+      for (const middleware of this.middlewares) {
+        await middleware.error?.(call, err);
+      }
+      throw err;
+    }
+
+    for (const middleware of this.middlewares) {
+      await middleware.after?.(call, result);
+    }
+
+    return result;
   }
 
   /**
@@ -89,6 +187,25 @@ class HandlerRegistry {
     return Array.from(this.handlers.keys());
   }
 
+  /**
+   * Gets the parameter schema of a method.
+   *
+   * @param method - Method name
+   * @returns Parameter schema, or undefined if not registered
+   */
+  getSchema(method: string): ParamSchema | undefined {
+    return this.schemas.get(method);
+  }
+
+  /**
+   * Gets all declared event names.
+   *
+   * @returns Array of event names
+   */
+  getEvents(): string[] {
+    return Array.from(this.events);
+  }
+
   /**
    * Gets count of registered handlers.
    *
@@ -97,6 +214,26 @@ class HandlerRegistry {
   get size(): number {
     return this.handlers.size;
   }
+
+  private async invoke(handler: Handler, call: DispatchCall): Promise<unknown> {
+    try {
+      return await handler(call.params, call.context);
+    } catch (err) {
+      let retry = false;
+      for (const middleware of this.middlewares) {
+        if (middleware.retry && (await middleware.retry(call, err))) {
+          retry = true;
+        }
+      }
+      if (!retry) {
+        throw err;
+      }
+
+      call.attempt++;
+      log.debug(`Retrying ${call.method} (attempt ${call.attempt})`);
+      return this.invoke(handler, call);
+    }
+  }
 }
 
 // ============================================================================
@@ -106,6 +243,6 @@ class HandlerRegistry {
 /** Global handler registry instance. */
 const registry = new HandlerRegistry();
 
-export type { Handler };
+export type { Handler, DispatchCall, Middleware };
 
 export { registry };
@@ -0,0 +1,577 @@
+/**
+ * @fileoverview Tracks concurrent driver sessions and what they own.
+ *
+ * Each WEBDRIVER_INIT creates (or reconnects) the session with that ID. The
+ * session claims the tab that sent the init message, its window and, when
+ * the tab runs in a container, that container. Tabs opened later belong to
+ * the session owning their opener, window or container; unowned tabs belong
+ * to the first session that commands them.
+ *
+ * Events are routed to the session owning the tab they concern. While only
+ * one session exists, unowned tabs are routed to it as well.
+ *
+ * @module core/session-manager
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { AuthProof } from "../types/index.js";
+import { ErrorCode } from "../types/index.js";
+
+import { registry } from "./registry.js";
+import { Session } from "./session.js";
+import type { SessionConnectOptions } from "./session.js";
+import { verifyInit } from "./auth.js";
+import { WebDriverError } from "./errors.js";
+import { createLogger } from "./logger.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options for connecting a session. */
+interface ConnectOptions {
+  /** Driver's proof from WEBDRIVER_INIT. */
+  auth?: AuthProof;
+  /** Minimum protocol version required by the driver. */
+  minProtocolVersion?: string;
+  /** Tab that sent WEBDRIVER_INIT; claimed with its window and container. */
+  tab?: browser.tabs.Tab;
+}
+
+/** Provides module state replayed to a driver when its session resumes. */
+type ResumeStateProvider = (sessionId: number) => unknown;
+
+/** Called when a session ends, to release its module state. */
+type SessionEndedListener = (sessionId: number) => void;
+
+/** Debug state for popup. */
+interface DebugState {
+  connected: boolean;
+  sessionId: number | null;
+  sessions: number;
+  tabId: number | null;
+  port: number | null;
+  wsUrl: string | null;
+  reconnecting: boolean;
+  requests: number;
+  errors: number;
+  handlers: number;
+  elements: number;
+  totalTabs: number;
+  tabProxy: string | null;
+  windowProxy: string | null;
+  blockUrls: string[];
+  interceptRequests: boolean;
+  interceptResponses: boolean;
+  mutationObservers: string[];
+  registeredHandlers: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Cookie store of tabs outside any container. */
+const DEFAULT_COOKIE_STORE_ID = "firefox-default";
+
+const log = createLogger("Sessions");
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Registry of driver sessions and their tabs, windows and containers.
+ */
+class SessionManager {
+  private readonly sessions = new Map<number, Session>();
+  private readonly tabOwners = new Map<number, number>();
+  private readonly windowOwners = new Map<number, number>();
+  private readonly containerOwners = new Map<string, number>();
+  private readonly resumeStateProviders = new Map<
+    string,
+    ResumeStateProvider
+  >();
+  private readonly endedListeners: SessionEndedListener[] = [];
+  private readonly warnedUnownedTabs = new Set<number>();
+  private listening = false;
+
+  /** Number of sessions. */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Connects a session, creating it on first use.
+   *
+   * The init proof is verified before anything is claimed or opened.
+   * Connecting an existing session ID replaces its connection; the session
+   * keeps what it owns, even if the new connection fails.
+   *
+   * @param wsUrl - WebSocket URL
+   * @param sessionId - Session ID from init message
+   * @param options - Connect options
+   * @returns Promise that resolves when connected
+   * @throws WebDriverError (`session not created`) if authentication fails
+   */
+  async connect(
+    wsUrl: string,
+    sessionId: number,
+    options: ConnectOptions = {}
+  ): Promise<void> {
+    const { tab, minProtocolVersion, auth } = options;
+
+    const proof = await verifyInit(sessionId, wsUrl, auth);
+    const sessionOptions: SessionConnectOptions = {
+      driverNonce: proof.nonce,
+    };
+    if (minProtocolVersion !== undefined) {
+      sessionOptions.minProtocolVersion = minProtocolVersion;
+    }
+    if (tab?.id !== undefined) sessionOptions.tabId = tab.id;
+
+    this.listen();
+
+    let session = this.sessions.get(sessionId);
+    const created = !session;
+    if (!session) {
+      session = new Session(sessionId, {
+        collectResumeState: (id) => this.collectResumeState(id),
+        onEnded: (id) => this.end(id),
+      });
+      this.sessions.set(sessionId, session);
+      log.info(`Session ${sessionId} created (${this.sessions.size} active)`);
+    }
+
+    if (tab) {
+      await this.claimInitTab(sessionId, tab);
+    }
+
+    try {
+      await session.connect(wsUrl, sessionOptions);
+    } catch (err) {
+      if (created) this.end(sessionId);
+      throw err;
+    }
+  }
+
+  /**
+   * Gets a session by ID.
+   *
+   * @param sessionId - Session ID
+   * @returns Session or undefined
+   */
+  get(sessionId: number): Session | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Gets a session by ID.
+   *
+   * @param sessionId - Session ID
+   * @returns Session
+   * @throws WebDriverError (`connection closed`) if the session has ended
+   */
+  require(sessionId: number): Session {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new WebDriverError(
+        ErrorCode.ConnectionClosed,
+        `Session ${sessionId} has ended`,
+        { sessionId }
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Gets the session that receives events for a tab.
+   *
+   * An unowned tab has no session while several exist; this is logged once
+   * per tab, since its events and network rules are dropped.
+   *
+   * @param tabId - Tab ID
+   * @returns Owning session, the only session if the tab is unowned, or undefined
+   */
+  forTab(tabId: number): Session | undefined {
+    const owner = this.tabOwners.get(tabId);
+    if (owner !== undefined) {
+      return this.sessions.get(owner);
+    }
+    if (this.sessions.size === 1) {
+      return this.sessions.values().next().value;
+    }
+    if (this.sessions.size > 1 && !this.warnedUnownedTabs.has(tabId)) {
+      this.warnedUnownedTabs.add(tabId);
+      log.warn(
+        `Tab ${tabId} belongs to no session (${this.sessions.size} active); ` +
+          "command it from a session to claim it"
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Assigns a new tab to the session owning its opener, window or container.
+   *
+   * Safe to call more than once; tab event handlers call it so they do not
+   * depend on listener order.
+   *
+   * @param tab - Created tab
+   * @returns Session that receives events for the tab, or undefined
+   */
+  assignTab(tab: browser.tabs.Tab): Session | undefined {
+    if (tab.id === undefined) return undefined;
+
+    if (!this.tabOwners.has(tab.id)) {
+      const owner =
+        (tab.openerTabId !== undefined
+          ? this.tabOwners.get(tab.openerTabId)
+          : undefined) ??
+        (tab.windowId !== undefined
+          ? this.windowOwners.get(tab.windowId)
+          : undefined) ??
+        (tab.cookieStoreId !== undefined
+          ? this.containerOwners.get(tab.cookieStoreId)
+          : undefined);
+
+      if (owner !== undefined) {
+        this.tabOwners.set(tab.id, owner);
+        log.debug(`Tab ${tab.id} assigned to session ${owner}`);
+      }
+    }
+
+    return this.forTab(tab.id);
+  }
+
+  /**
+   * Checks whether a session may command a tab.
+   *
+   * @param sessionId - Session ID
+   * @param tabId - Tab ID
+   * @returns True if the tab is unowned or owned by the session
+   */
+  canAccessTab(sessionId: number, tabId: number): boolean {
+    const owner = this.tabOwners.get(tabId);
+    return owner === undefined || owner === sessionId;
+  }
+
+  /**
+   * Assigns a tab to a session.
+   *
+   * @param sessionId - Session ID
+   * @param tabId - Tab ID
+   */
+  claimTab(sessionId: number, tabId: number): void {
+    this.tabOwners.set(tabId, sessionId);
+    this.warnedUnownedTabs.delete(tabId);
+  }
+
+  /**
+   * Checks whether a session may command a window.
+   *
+   * @param sessionId - Session ID
+   * @param windowId - Window ID
+   * @returns True if the window is unowned or owned by the session
+   */
+  canAccessWindow(sessionId: number, windowId: number): boolean {
+    const owner = this.windowOwners.get(windowId);
+    return owner === undefined || owner === sessionId;
+  }
+
+  /**
+   * Assigns a window to a session.
+   *
+   * @param sessionId - Session ID
+   * @param windowId - Window ID
+   */
+  claimWindow(sessionId: number, windowId: number): void {
+    this.windowOwners.set(windowId, sessionId);
+  }
+
+  /**
+   * Gets a window owned by a session, for opening new tabs in.
+   *
+   * @param sessionId - Session ID
+   * @returns Window ID or undefined
+   */
+  getWindow(sessionId: number): number | undefined {
+    for (const [windowId, owner] of this.windowOwners) {
+      if (owner === sessionId) return windowId;
+    }
+    return undefined;
+  }
+
+  /**
+   * Registers a provider of module state replayed on resume.
+   *
+   * @param name - State key in the READY payload (usually the module name)
+   * @param provider - Returns a JSON-serializable snapshot for a session
+   * @throws Error if name already registered
+   */
+  registerResumeState(name: string, provider: ResumeStateProvider): void {
+    if (this.resumeStateProviders.has(name)) {
+      throw new Error(`Resume state already registered: ${name}`);
+    }
+    this.resumeStateProviders.set(name, provider);
+  }
+
+  /**
+   * Registers a listener called when a session ends.
+   *
+   * @param listener - Receives the ended session's ID
+   */
+  onSessionEnded(listener: SessionEndedListener): void {
+    this.endedListeners.push(listener);
+  }
+
+  /**
+   * Gets debug state for popup.
+   *
+   * Shows the session owning the active tab, or the newest session.
+   *
+   * @returns Debug state
+   */
+  async getDebugState(): Promise<DebugState> {
+    let currentTabId: number | null = null;
+    let totalTabs = 0;
+    try {
+      const tabs = await browser.tabs.query({});
+      totalTabs = tabs.length;
+
+      const [activeTab] = await browser.tabs.query({
+        active: true,
+        currentWindow: true,
+      });
+      if (activeTab?.id !== undefined) {
+        currentTabId = activeTab.id;
+      }
+    } catch {
+      // Ignore
+    }
+
+    const session =
+      (currentTabId !== null ? this.forTab(currentTabId) : undefined) ??
+      Array.from(this.sessions.values()).pop();
+    const stats = session?.getStats();
+
+    let port: number | null = null;
+    if (stats?.wsUrl) {
+      const match = stats.wsUrl.match(/:(\d+)/);
+      if (match?.[1]) {
+        port = parseInt(match[1], 10);
+      }
+    }
+
+    const { getNetworkState } =
+      await import("../background/modules/network/index.js");
+    const { getProxyState } =
+      await import("../background/modules/proxy/index.js");
+
+    const formatProxy = (
+      cfg: { type: string; host: string; port: number } | null
+    ): string | null => {
+      if (!cfg) return null;
+      return `${cfg.type}://${cfg.host}:${cfg.port}`;
+    };
+
+    let tabProxy: string | null = null;
+    let windowProxy: string | null = null;
+    let blockUrls: string[] = [];
+    let interceptRequests = false;
+    let interceptResponses = false;
+
+    if (session) {
+      const networkState = getNetworkState(session.id);
+      const proxyState = getProxyState(session.id);
+
+      const currentTabProxy = proxyState.tabProxies.find(
+        (p) => p.tabId === currentTabId
+      )?.config;
+
+      tabProxy = formatProxy(currentTabProxy ?? null);
+      windowProxy = formatProxy(proxyState.windowProxy);
+      blockUrls = networkState.blockPatterns;
+      interceptRequests = networkState.intercepts.some(
+        (i) => i.config.interceptRequests
+      );
+      interceptResponses = networkState.intercepts.some(
+        (i) => i.config.interceptResponses
+      );
+    }
+
+    let elements = 0;
+    let mutationObservers: string[] = [];
+
+    if (currentTabId !== null) {
+      try {
+        const contentState = (await browser.tabs.sendMessage(currentTabId, {
+          type: "GET_CONTENT_STATE",
+        })) as { elementCount: number; subscriptions: string[] } | undefined;
+
+        if (contentState) {
+          elements = contentState.elementCount;
+          mutationObservers = contentState.subscriptions;
+        }
+      } catch {
+        // Content script may not be loaded
+      }
+    }
+
+    return {
+      connected: stats?.connected ?? false,
+      sessionId: stats?.sessionId ?? null,
+      sessions: this.sessions.size,
+      tabId: currentTabId,
+      port,
+      wsUrl: stats?.wsUrl ?? null,
+      reconnecting: stats?.reconnecting ?? false,
+      requests: stats?.requests ?? 0,
+      errors: stats?.errors ?? 0,
+      handlers: registry.size,
+      elements,
+      totalTabs,
+      tabProxy,
+      windowProxy,
+      blockUrls,
+      interceptRequests,
+      interceptResponses,
+      mutationObservers,
+      registeredHandlers: registry.getMethods(),
+    };
+  }
+
+  // ==========================================================================
+  // Private Methods
+  // ==========================================================================
+
+  private async claimInitTab(
+    sessionId: number,
+    tab: browser.tabs.Tab
+  ): Promise<void> {
+    if (tab.id !== undefined) {
+      this.tabOwners.set(tab.id, sessionId);
+    }
+
+    if (
+      tab.cookieStoreId !== undefined &&
+      tab.cookieStoreId !== DEFAULT_COOKIE_STORE_ID
+    ) {
+      this.claimIfUnowned(this.containerOwners, tab.cookieStoreId, sessionId);
+    }
+
+    if (tab.windowId === undefined) return;
+    if (!this.claimIfUnowned(this.windowOwners, tab.windowId, sessionId)) {
+      return;
+    }
+
+    // Tabs already open in the window belong to the session as well
+    try {
+      const tabs = await browser.tabs.query({ windowId: tab.windowId });
+      for (const windowTab of tabs) {
+        if (windowTab.id !== undefined && !this.tabOwners.has(windowTab.id)) {
+          this.tabOwners.set(windowTab.id, sessionId);
+        }
+      }
+    } catch (err) {
+      log.warn(`Failed to claim tabs of window ${tab.windowId}`, err);
+    }
+  }
+
+  private claimIfUnowned<K>(
+    owners: Map<K, number>,
+    key: K,
+    sessionId: number
+  ): boolean {
+    const owner = owners.get(key);
+    if (owner !== undefined && owner !== sessionId) {
+      log.warn(`${String(key)} already owned by session ${owner}`);
+      return false;
+    }
+    owners.set(key, sessionId);
+    return true;
+  }
+
+  private collectResumeState(sessionId: number): Record<string, unknown> {
+    const state: Record<string, unknown> = {};
+    for (const [name, provider] of this.resumeStateProviders) {
+      try {
+        state[name] = provider(sessionId);
+      } catch (err) {
+        log.error(`Failed to collect resume state: ${name}`, err);
+      }
+    }
+    return state;
+  }
+
+  private end(sessionId: number): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.disconnect();
+    this.sessions.delete(sessionId);
+
+    for (const owners of [
+      this.tabOwners,
+      this.windowOwners,
+      this.containerOwners,
+    ] as Array<Map<unknown, number>>) {
+      for (const [key, owner] of owners) {
+        if (owner === sessionId) owners.delete(key);
+      }
+    }
+
+    for (const listener of this.endedListeners) {
+      try {
+        listener(sessionId);
+      } catch (err) {
+        log.error("Session ended listener failed", err);
+      }
+    }
+
+    log.info(`Session ${sessionId} ended (${this.sessions.size} active)`);
+  }
+
+  private listen(): void {
+    if (this.listening) return;
+    this.listening = true;
+
+    browser.tabs.onCreated.addListener((tab) => {
+      this.assignTab(tab);
+    });
+
+    browser.tabs.onAttached.addListener((tabId, { newWindowId }) => {
+      const owner = this.windowOwners.get(newWindowId);
+      if (owner !== undefined) {
+        this.tabOwners.set(tabId, owner);
+      }
+    });
+
+    browser.tabs.onRemoved.addListener((tabId) => {
+      this.tabOwners.delete(tabId);
+      this.warnedUnownedTabs.delete(tabId);
+    });
+
+    browser.windows.onRemoved.addListener((windowId) => {
+      this.windowOwners.delete(windowId);
+    });
+  }
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+/** Global session manager. */
+const sessions = new SessionManager();
+
+export type {
+  ConnectOptions,
+  DebugState,
+  ResumeStateProvider,
+  SessionEndedListener,
+};
+export { sessions };
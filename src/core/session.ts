@@ -1,5 +1,9 @@
 /**
- * @fileoverview WebSocket session manager.
+ * @fileoverview WebSocket connection for one driver session.
+ *
+ * Sessions are created and tracked by the session manager; modules reach
+ * the session owning a tab through `sessions.forTab()`.
+ *
  * @module core/session
  */
 
@@ -9,9 +13,12 @@
 
 import type {
   Request,
+  RequestId,
   Response,
   Event,
   EventReply,
+  ReadyData,
+  AuthResult,
   RequestContext,
 } from "../types/index.js";
 import {
@@ -20,6 +27,7 @@ import {
   ErrorCode,
   isRequest,
   isEventReply,
+  isAuthRequest,
   READY_REQUEST_ID,
   createTabId,
   createFrameId,
@@ -27,7 +35,14 @@ import {
 } from "../types/index.js";
 
 import { registry } from "./registry.js";
+import { signReady, verifyConnect } from "./auth.js";
+import { getCapabilities, assertProtocolCompatible } from "./capabilities.js";
+import { WebDriverError, toWebDriverError } from "./errors.js";
+import type { Attachment } from "./attachments.js";
+import { extractAttachments, encodeChunkFrame } from "./attachments.js";
+import { EventSubscriptions } from "./subscriptions.js";
 import { createLogger } from "./logger.js";
+import { generateUUID, raceAbort } from "./utils.js";
 
 // ============================================================================
 // Types
@@ -40,25 +55,47 @@ interface PendingEvent {
   timeoutId: ReturnType<typeof setTimeout>;
 }
 
-/** Debug state for popup. */
-interface DebugState {
+/** Callbacks from the session manager. */
+interface SessionHooks {
+  /** Collects module state replayed to the driver on resume. */
+  collectResumeState: (sessionId: number) => Record<string, unknown>;
+  /** Called once the session gave up reconnecting. */
+  onEnded: (sessionId: number) => void;
+}
+
+/** Options for opening a session's connection. */
+interface SessionConnectOptions {
+  /** Nonce of the verified WEBDRIVER_INIT, signed in every READY. */
+  driverNonce: string;
+  /** Minimum protocol version required by the driver. */
+  minProtocolVersion?: string;
+  /** Tab reported in READY (defaults to the active tab). */
+  tabId?: number;
+}
+
+/** Attachments whose binary frames were cut off by a dropped socket. */
+interface UnsentStream {
+  attachments: Attachment[];
+  /** Chunk size announced in the attachment refs. */
+  chunkSize: number;
+}
+
+/** Transfer options negotiated with `session.configure`. */
+interface TransferOptions {
+  /** Send attachments as binary frames instead of inline base64. */
+  binaryAttachments: boolean;
+  /** Bytes per binary frame. */
+  chunkSize: number;
+}
+
+/** Connection counters for the popup. */
+interface SessionStats {
+  sessionId: number;
   connected: boolean;
-  sessionId: number | null;
-  tabId: number | null;
-  port: number | null;
   wsUrl: string | null;
+  reconnecting: boolean;
   requests: number;
   errors: number;
-  handlers: number;
-  elements: number;
-  totalTabs: number;
-  tabProxy: string | null;
-  windowProxy: string | null;
-  blockUrls: string[];
-  interceptRequests: boolean;
-  interceptResponses: boolean;
-  mutationObservers: string[];
-  registeredHandlers: string[];
 }
 
 // ============================================================================
@@ -67,6 +104,21 @@ interface DebugState {
 
 const EVENT_TIMEOUT_MS = 30_000;
 
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10_000;
+const RECONNECT_MAX_ATTEMPTS = 20;
+
+/** Time the driver has to authenticate a connection after READY. */
+const AUTH_TIMEOUT_MS = 10_000;
+
+/** Maximum responses buffered while the socket is down. */
+const MAX_OUTBOX_SIZE = 1000;
+
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+
+/** Pause streaming attachments while this much data is queued on the socket. */
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+
 const log = createLogger("Session");
 
 // ============================================================================
@@ -74,95 +126,152 @@ const log = createLogger("Session");
 // ============================================================================
 
 /**
- * WebSocket session manager (singleton).
+ * WebSocket connection for one driver session.
  */
 class Session {
-  private static instance: Session | null = null;
-
   private ws: WebSocket | null = null;
   private wsUrl: string | null = null;
-  private sessionId: number | null = null;
+  private minProtocolVersion: string | null = null;
+  private driverNonce: string | null = null;
+  /** Nonce of the current connection's READY, answered by the driver. */
+  private readyNonce: string | null = null;
+  private authenticated = false;
   private tabId: number | null = null;
+  private resumeToken: string | null = null;
+  private reconnecting = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private requestCount = 0;
   private errorCount = 0;
   private readonly pendingEvents = new Map<string, PendingEvent>();
+  private readonly inFlight = new Map<RequestId, AbortController>();
+  private readonly outbox: Response[] = [];
+  private readonly unsentStreams: UnsentStream[] = [];
+  private transfer: TransferOptions = {
+    binaryAttachments: false,
+    chunkSize: DEFAULT_CHUNK_SIZE,
+  };
 
-  private constructor() {}
+  /** Events the driver subscribed to; kept across resumes. */
+  readonly subscriptions = new EventSubscriptions();
 
   /**
-   * Gets the singleton instance.
-   *
-   * @returns Session instance
+   * @param id - Session ID from init message
+   * @param hooks - Session manager callbacks
    */
-  static getInstance(): Session {
-    if (!Session.instance) {
-      Session.instance = new Session();
-    }
-    return Session.instance;
-  }
+  constructor(
+    readonly id: number,
+    private readonly hooks: SessionHooks
+  ) {}
 
   /**
    * Connects to WebSocket server.
    *
+   * Any previous connection is closed first and a fresh resume token is
+   * issued. If the socket later drops, the session reconnects to the same
+   * URL with exponential backoff and resumes with that token.
+   *
+   * Every connection must be authenticated: the driver answers the READY
+   * nonce with an `auth` message before anything is dispatched or sent.
+   *
+   * If the driver requested a minimum protocol version this build does not
+   * satisfy, the READY handshake is an `unsupported protocol` error and the
+   * socket is closed.
+   *
    * @param wsUrl - WebSocket URL
-   * @param sessionId - Session ID from init message
-   * @returns Promise that resolves when connected
+   * @param options - Init nonce, protocol version and initial tab
+   * @returns Promise that resolves when the connection is authenticated
    */
-  async connect(wsUrl: string, sessionId: number): Promise<void> {
-    this.wsUrl = wsUrl;
-    this.sessionId = sessionId;
-
-    return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(wsUrl);
+  async connect(wsUrl: string, options: SessionConnectOptions): Promise<void> {
+    this.disconnect();
 
-      this.ws.onopen = async (): Promise<void> => {
-        log.info("WebSocket connected", { wsUrl, sessionId });
-
-        try {
-          const [tab] = await browser.tabs.query({
-            active: true,
-            currentWindow: true,
-          });
-          if (tab?.id !== undefined) {
-            this.tabId = tab.id;
-          }
-        } catch {
-          // May not have active tab yet
-        }
+    this.wsUrl = wsUrl;
+    this.driverNonce = options.driverNonce;
+    this.minProtocolVersion = options.minProtocolVersion ?? null;
+    this.tabId = options.tabId ?? null;
+    this.resumeToken = generateUUID();
+    this.outbox.length = 0;
+    this.unsentStreams.length = 0;
+    this.transfer = {
+      binaryAttachments: false,
+      chunkSize: DEFAULT_CHUNK_SIZE,
+    };
+    this.subscriptions.clear();
 
-        this.sendReady(sessionId);
-        resolve();
-      };
+    return this.openSocket(false);
+  }
 
-      this.ws.onmessage = async (event): Promise<void> => {
-        try {
-          const message = JSON.parse(event.data as string) as unknown;
-          await this.handleMessage(message);
-        } catch (err) {
-          log.error("Failed to parse message", err);
-        }
-      };
+  /**
+   * Closes the connection without reconnecting.
+   */
+  disconnect(): void {
+    this.cancelReconnect();
+
+    const ws = this.ws;
+    if (ws) {
+      // Detach first so onclose does not treat this as a dropped connection
+      this.ws = null;
+      this.authenticated = false;
+      ws.close();
+      this.failAllPendingEvents();
+      log.info("WebSocket disconnected");
+    }
+  }
 
-      this.ws.onerror = (error): void => {
-        log.error("WebSocket error", error);
-        reject(new Error("WebSocket connection failed"));
-      };
+  /**
+   * Updates transfer options for this session.
+   *
+   * Options persist across resumed connections and reset on a new
+   * WEBDRIVER_INIT.
+   *
+   * @param options - Options to change
+   * @returns Current options
+   */
+  configure(options: Partial<TransferOptions>): TransferOptions {
+    this.transfer = { ...this.transfer, ...options };
+    log.info("Transfer options updated", this.transfer);
+    return { ...this.transfer };
+  }
 
-      this.ws.onclose = (): void => {
-        log.info("WebSocket closed");
-        this.ws = null;
-        this.failAllPendingEvents();
-      };
-    });
+  /**
+   * Checks whether attachments are sent as binary frames.
+   *
+   * Modules whose payload is text by default (e.g. response bodies) only
+   * switch to an `Attachment` when this is enabled.
+   *
+   * @returns True if binary attachments are enabled
+   */
+  usesBinaryAttachments(): boolean {
+    return this.transfer.binaryAttachments;
   }
 
   /**
-   * Checks if WebSocket is connected.
+   * Checks if WebSocket is connected and authenticated.
    *
    * @returns True if connected
    */
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.authenticated && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Cancels an in-flight request.
+   *
+   * The request fails with a `timeout` error; its handler observes the abort
+   * through `RequestContext.signal`.
+   *
+   * @param id - ID of the request to cancel
+   * @returns True if the request was still running
+   */
+  cancelRequest(id: RequestId): boolean {
+    const controller = this.inFlight.get(id);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort(new DOMException("Request cancelled", "AbortError"));
+    log.debug(`Cancelled request: ${id}`);
+    return true;
   }
 
   /**
@@ -177,7 +286,10 @@ class Session {
     params: Record<string, unknown>
   ): Promise<T> {
     if (!this.isConnected()) {
-      throw new Error("WebSocket not connected");
+      throw new WebDriverError(
+        ErrorCode.ConnectionClosed,
+        "WebSocket not connected"
+      );
     }
 
     const eventId = generateRequestId();
@@ -192,8 +304,10 @@ class Session {
       const timeoutId = setTimeout(() => {
         this.pendingEvents.delete(eventId);
         reject(
-          new Error(
-            `Event ${eventMethod} timed out after ${EVENT_TIMEOUT_MS}ms`
+          new WebDriverError(
+            ErrorCode.Timeout,
+            `Event ${eventMethod} timed out after ${EVENT_TIMEOUT_MS}ms`,
+            { event: eventMethod }
           )
         );
       }, EVENT_TIMEOUT_MS);
@@ -204,13 +318,16 @@ class Session {
         timeoutId,
       });
 
-      this.ws!.send(JSON.stringify(event));
+      this.transmit(this.ws!, event);
     });
   }
 
   /**
    * Sends an event without waiting for reply.
    *
+   * Dropped if the driver subscribed to events and none of its
+   * subscriptions match.
+   *
    * @param eventMethod - Event method name
    * @param params - Event parameters
    */
@@ -220,6 +337,10 @@ class Session {
       return;
     }
 
+    if (!this.subscriptions.matches(eventMethod, params)) {
+      return;
+    }
+
     const eventId = generateRequestId();
     const event: Event = {
       id: eventId,
@@ -228,109 +349,205 @@ class Session {
       params,
     };
 
-    this.ws!.send(JSON.stringify(event));
+    this.transmit(this.ws!, event);
     log.debug(`Sent event: ${eventMethod}`, params);
   }
 
   /**
-   * Gets debug state for popup.
+   * Gets connection counters for the popup.
    *
-   * @returns Debug state
+   * @returns Session stats
    */
-  async getDebugState(): Promise<DebugState> {
-    let port: number | null = null;
-    if (this.wsUrl) {
-      const match = this.wsUrl.match(/:(\d+)/);
-      if (match?.[1]) {
-        port = parseInt(match[1], 10);
-      }
-    }
+  getStats(): SessionStats {
+    return {
+      sessionId: this.id,
+      connected: this.isConnected(),
+      wsUrl: this.wsUrl,
+      reconnecting: this.reconnecting,
+      requests: this.requestCount,
+      errors: this.errorCount,
+    };
+  }
 
-    let currentTabId: number | null = null;
-    let totalTabs = 0;
-    try {
-      const tabs = await browser.tabs.query({});
-      totalTabs = tabs.length;
+  // ==========================================================================
+  // Private Methods
+  // ==========================================================================
 
-      const [activeTab] = await browser.tabs.query({
-        active: true,
-        currentWindow: true,
-      });
-      if (activeTab?.id !== undefined) {
-        currentTabId = activeTab.id;
-      }
-    } catch {
-      // Ignore
-    }
+  private openSocket(resumed: boolean): Promise<void> {
+    const wsUrl = this.wsUrl!;
+    const sessionId = this.id;
 
-    const { getNetworkState } =
-      await import("../background/modules/network/index.js");
-    const { getProxyState } =
-      await import("../background/modules/proxy/index.js");
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(wsUrl);
+      this.ws = ws;
+      this.authenticated = false;
+      this.readyNonce = null;
+      let opened = false;
+      let authTimer: ReturnType<typeof setTimeout> | undefined;
+
+      ws.onopen = async (): Promise<void> => {
+        log.info(resumed ? "WebSocket reconnected" : "WebSocket connected", {
+          wsUrl,
+          sessionId,
+        });
+
+        if (this.minProtocolVersion !== null) {
+          try {
+            assertProtocolCompatible(this.minProtocolVersion);
+          } catch (err) {
+            const error = toWebDriverError(err);
+            log.error("Refusing connection", { message: error.message });
+            this.transmit(
+              ws,
+              errorResponse(
+                READY_REQUEST_ID,
+                error.code,
+                error.message,
+                error.data
+              )
+            );
+            this.disconnect();
+            reject(error);
+            return;
+          }
+        }
 
-    const networkState = getNetworkState();
-    const proxyState = getProxyState();
+        if (this.tabId === null) {
+          try {
+            const [tab] = await browser.tabs.query({
+              active: true,
+              currentWindow: true,
+            });
+            if (tab?.id !== undefined) {
+              this.tabId = tab.id;
+            }
+          } catch {
+            // May not have active tab yet
+          }
+        }
 
-    const formatProxy = (
-      cfg: { type: string; host: string; port: number } | null
-    ): string | null => {
-      if (!cfg) return null;
-      return `${cfg.type}://${cfg.host}:${cfg.port}`;
-    };
+        try {
+          await this.sendReady(ws, sessionId, resumed);
+        } catch (err) {
+          log.error("Failed to send READY handshake", err);
+          ws.close();
+          return;
+        }
 
-    const currentTabProxy = currentTabId
-      ? proxyState.tabProxies.find((p) => p.tabId === currentTabId)?.config
-      : null;
+        authTimer = setTimeout(() => {
+          log.warn("Driver did not authenticate the connection", { wsUrl });
+          ws.close();
+        }, AUTH_TIMEOUT_MS);
+      };
 
-    const interceptRequests = networkState.intercepts.some(
-      (i) => i.config.interceptRequests
-    );
-    const interceptResponses = networkState.intercepts.some(
-      (i) => i.config.interceptResponses
-    );
+      ws.onmessage = async (event): Promise<void> => {
+        let message: unknown;
+        try {
+          message = JSON.parse(event.data as string) as unknown;
+        } catch (err) {
+          log.error("Failed to parse message", err);
+          return;
+        }
 
-    let elements = 0;
-    let mutationObservers: string[] = [];
+        if (this.authenticated) {
+          await this.handleMessage(message);
+          return;
+        }
+
+        try {
+          await this.authenticate(ws, message, resumed);
+        } catch (err) {
+          const error = toWebDriverError(err);
+          log.error("Closing unauthenticated connection", {
+            message: error.message,
+          });
+          ws.close();
+          return;
+        } finally {
+          clearTimeout(authTimer);
+        }
+
+        opened = true;
+        this.reconnecting = false;
+        this.reconnectAttempts = 0;
+        this.flushOutbox();
+        resolve();
+      };
+
+      ws.onerror = (error): void => {
+        log.error("WebSocket error", error);
+        reject(new Error("WebSocket connection failed"));
+      };
+
+      ws.onclose = (): void => {
+        clearTimeout(authTimer);
 
-    if (currentTabId !== null) {
-      try {
-        const contentState = (await browser.tabs.sendMessage(currentTabId, {
-          type: "GET_CONTENT_STATE",
-        })) as { elementCount: number; subscriptions: string[] } | undefined;
+        // Superseded by disconnect() or a newer connection
+        if (this.ws !== ws) return;
 
-        if (contentState) {
-          elements = contentState.elementCount;
-          mutationObservers = contentState.subscriptions;
+        log.info("WebSocket closed");
+        this.ws = null;
+        this.authenticated = false;
+        this.failAllPendingEvents();
+
+        // A first connection that never authenticated is reported to the caller
+        if (opened || resumed) {
+          this.scheduleReconnect();
+        } else {
+          reject(
+            new WebDriverError(
+              ErrorCode.SessionNotCreated,
+              "Connection closed before it was authenticated"
+            )
+          );
         }
-      } catch {
-        // Content script may not be loaded
-      }
+      };
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.wsUrl === null) return;
+
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      log.error(
+        `Giving up reconnect after ${this.reconnectAttempts} attempts`,
+        { wsUrl: this.wsUrl }
+      );
+      this.reconnecting = false;
+      this.reconnectAttempts = 0;
+      this.outbox.length = 0;
+      this.unsentStreams.length = 0;
+      this.hooks.onEnded(this.id);
+      return;
     }
 
-    return {
-      connected: this.isConnected(),
-      sessionId: this.sessionId,
-      tabId: currentTabId,
-      port,
-      wsUrl: this.wsUrl,
-      requests: this.requestCount,
-      errors: this.errorCount,
-      handlers: registry.size,
-      elements,
-      totalTabs,
-      tabProxy: formatProxy(currentTabProxy ?? null),
-      windowProxy: formatProxy(proxyState.windowProxy),
-      blockUrls: networkState.blockPatterns,
-      interceptRequests,
-      interceptResponses,
-      mutationObservers,
-      registeredHandlers: registry.getMethods(),
-    };
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS
+    );
+    this.reconnecting = true;
+    this.reconnectAttempts++;
+
+    log.info(
+      `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${RECONNECT_MAX_ATTEMPTS})`
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket(true).catch(() => {
+        // onclose schedules the next attempt
+      });
+    }, delay);
   }
 
-  // ==========================================================================
-  // Private Methods
-  // ==========================================================================
+  private cancelReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnecting = false;
+    this.reconnectAttempts = 0;
+  }
 
   private async handleMessage(message: unknown): Promise<void> {
     if (isEventReply(message)) {
@@ -347,49 +564,120 @@ class Session {
   }
 
   private async handleRequest(request: Request): Promise<void> {
-    const { id, method, tabId, frameId, params } = request;
-    log.debug(`Received: ${method}`, { tabId, frameId, params });
+    const { id, method, tabId, frameId, params, deadlineMs } = request;
+    log.debug(`Received: ${method}`, { tabId, frameId, params, deadlineMs });
     this.requestCount++;
 
+    const controller = new AbortController();
+    this.inFlight.set(id, controller);
+
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    if (typeof deadlineMs === "number" && deadlineMs > 0) {
+      deadlineTimer = setTimeout(() => {
+        controller.abort(
+          new DOMException(
+            `Request exceeded deadline of ${deadlineMs}ms`,
+            "TimeoutError"
+          )
+        );
+      }, deadlineMs);
+    }
+
     const context: RequestContext = {
       tabId: createTabId(tabId),
       frameId: createFrameId(frameId),
+      sessionId: this.id,
+      signal: controller.signal,
     };
 
     try {
-      const result = await registry.dispatch(method, params, context);
+      const result = await raceAbort(
+        registry.dispatch(method, params, context),
+        controller.signal
+      );
       log.debug(`Completed: ${method}`, { result });
       this.send(successResponse(id, result));
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : String(err);
-      log.error(`Failed: ${method} - ${errorMsg}`, err);
+      const error = toWebDriverError(err);
+      log.error(`Failed: ${method} - ${error.message}`, err);
       this.errorCount++;
 
-      const errorCode = this.getErrorCode(err);
-      this.send(errorResponse(id, errorCode, errorMsg));
+      this.send(errorResponse(id, error.code, error.message, error.data));
+    } finally {
+      clearTimeout(deadlineTimer);
+      this.inFlight.delete(id);
     }
   }
 
-  private getErrorCode(err: unknown): string {
-    if (err instanceof Error) {
-      const msg = err.message.toLowerCase();
-      if (msg.includes("unknown method")) return ErrorCode.UnknownCommand;
-      if (msg.includes("element not found")) return ErrorCode.NoSuchElement;
-      if (msg.includes("stale")) return ErrorCode.StaleElement;
-      if (msg.includes("frame not found")) return ErrorCode.NoSuchFrame;
-      if (msg.includes("tab not found")) return ErrorCode.NoSuchTab;
-      if (msg.includes("timeout")) return ErrorCode.Timeout;
-    }
-    return ErrorCode.UnknownError;
-  }
+  private async sendReady(
+    ws: WebSocket,
+    sessionId: number,
+    resumed: boolean
+  ): Promise<void> {
+    const auth = await signReady(sessionId, this.driverNonce!);
+    this.readyNonce = auth.nonce;
+
+    const data: ReadyData = {
+      sessionId,
+      tabId: this.tabId,
+      resumeToken: this.resumeToken!,
+      resumed,
+      capabilities: getCapabilities(),
+      auth,
+    };
 
-  private sendReady(sessionId: number): void {
-    const response = successResponse(READY_REQUEST_ID, {
+    this.transmit(ws, successResponse(READY_REQUEST_ID, data));
+    log.info("Sent READY handshake", {
       sessionId,
       tabId: this.tabId,
+      resumed,
     });
-    this.send(response);
-    log.info("Sent READY handshake", { sessionId, tabId: this.tabId });
+  }
+
+  /**
+   * Verifies the driver's first message on a connection.
+   *
+   * @throws WebDriverError (`session not created`) if it is not a valid
+   *   `auth` message for this connection's READY nonce
+   */
+  private async authenticate(
+    ws: WebSocket,
+    message: unknown,
+    resumed: boolean
+  ): Promise<void> {
+    if (!isAuthRequest(message) || this.readyNonce === null) {
+      const error = new WebDriverError(
+        ErrorCode.SessionNotCreated,
+        "Connection is not authenticated"
+      );
+      if (isRequest(message)) {
+        this.transmit(ws, errorResponse(message.id, error.code, error.message));
+      }
+      throw error;
+    }
+
+    try {
+      await verifyConnect(this.id, this.readyNonce, message.mac);
+    } catch (err) {
+      const error = toWebDriverError(err);
+      this.transmit(ws, errorResponse(message.id, error.code, error.message));
+      throw error;
+    }
+
+    if (this.ws !== ws) {
+      throw new WebDriverError(
+        ErrorCode.ConnectionClosed,
+        "Connection was replaced"
+      );
+    }
+
+    this.authenticated = true;
+    const result: AuthResult = { resumed };
+    if (resumed) {
+      result.state = this.hooks.collectResumeState(this.id);
+    }
+    this.transmit(ws, successResponse(message.id, result));
+    log.info("Connection authenticated", { sessionId: this.id, resumed });
   }
 
   private handleEventReply(reply: EventReply): void {
@@ -408,7 +696,10 @@ class Session {
   }
 
   private failAllPendingEvents(): void {
-    const error = new Error("WebSocket connection closed");
+    const error = new WebDriverError(
+      ErrorCode.ConnectionClosed,
+      "WebSocket connection closed"
+    );
     for (const [, pending] of this.pendingEvents) {
       clearTimeout(pending.timeoutId);
       pending.reject(error);
@@ -417,8 +708,111 @@ class Session {
   }
 
   private send(response: Response): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(response));
+    if (this.isConnected()) {
+      this.transmit(this.ws!, response);
+      return;
+    }
+
+    // Hold responses for commands that finish while reconnecting
+    if (this.reconnecting && this.outbox.length < MAX_OUTBOX_SIZE) {
+      this.outbox.push(response);
+    }
+  }
+
+  /**
+   * Sends a message, streaming any attachments as binary frames when
+   * enabled. The JSON message goes first so the driver knows what to expect.
+   */
+  private transmit(ws: WebSocket, message: Response | Event): void {
+    if (!this.transfer.binaryAttachments) {
+      ws.send(JSON.stringify(message));
+      return;
+    }
+
+    const attachments: Attachment[] = [];
+    const payload = extractAttachments(
+      message,
+      this.transfer.chunkSize,
+      attachments
+    );
+    ws.send(JSON.stringify(payload));
+
+    if (attachments.length > 0) {
+      void this.streamAttachments(ws, attachments, this.transfer.chunkSize);
+    }
+  }
+
+  /**
+   * Streams attachments as binary frames.
+   *
+   * If the socket drops mid-stream, the JSON referencing them has already
+   * gone out, so the interrupted attachment and the rest are resent from
+   * their first frame once the session resumes. Drivers discard partial
+   * attachments when the socket closes.
+   */
+  private async streamAttachments(
+    ws: WebSocket,
+    attachments: Attachment[],
+    chunkSize: number
+  ): Promise<void> {
+    const resumeToken = this.resumeToken;
+
+    for (const [index, attachment] of attachments.entries()) {
+      const bytes = attachment.toBytes();
+      const chunks = Math.max(1, Math.ceil(bytes.length / chunkSize));
+
+      for (let seq = 0; seq < chunks; seq++) {
+        // Yield between frames so other messages are not held up
+        do {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        } while (
+          ws.readyState === WebSocket.OPEN &&
+          ws.bufferedAmount > MAX_BUFFERED_BYTES
+        );
+
+        if (this.ws !== ws || ws.readyState !== WebSocket.OPEN) {
+          // A new WEBDRIVER_INIT replaced the session's connection state
+          if (this.resumeToken !== resumeToken) return;
+
+          log.warn(
+            `Attachment ${attachment.id} cut off: socket closed, resending after resume`
+          );
+          if (this.unsentStreams.length < MAX_OUTBOX_SIZE) {
+            this.unsentStreams.push({
+              attachments: attachments.slice(index),
+              chunkSize,
+            });
+          }
+          return;
+        }
+
+        const chunk = bytes.subarray(seq * chunkSize, (seq + 1) * chunkSize);
+        ws.send(
+          encodeChunkFrame(
+            { id: attachment.id, seq, last: seq === chunks - 1 },
+            chunk
+          )
+        );
+      }
+
+      log.debug(
+        `Attachment ${attachment.id} sent: ${bytes.length} bytes, ${chunks} frames`
+      );
+    }
+  }
+
+  private flushOutbox(): void {
+    for (const { attachments, chunkSize } of this.unsentStreams.splice(0)) {
+      log.info(`Resending ${attachments.length} cut-off attachments`);
+      void this.streamAttachments(this.ws!, attachments, chunkSize);
+    }
+
+    if (this.outbox.length === 0) return;
+
+    log.info(`Flushing ${this.outbox.length} buffered responses`);
+    const responses = this.outbox.splice(0);
+    for (const response of responses) {
+      this.send(response);
     }
   }
 }
@@ -427,9 +821,10 @@ class Session {
 // Exports
 // ============================================================================
 
-/** Global session instance. */
-const session = Session.getInstance();
-
-export type { DebugState };
-
-export { session };
+export type {
+  SessionConnectOptions,
+  SessionHooks,
+  SessionStats,
+  TransferOptions,
+};
+export { Session };
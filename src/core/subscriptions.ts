@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Per-session event subscriptions.
+ *
+ * A session that never subscribed receives every event. Once it subscribes,
+ * only events matching one of its subscriptions are sent, even after it
+ * unsubscribes from everything. Replies to
+ * interception events are requested by their own commands and not filtered.
+ *
+ * @module core/subscriptions
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import { generateUUID, patternToRegex } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Event subscription as requested by the driver. */
+interface EventSubscription {
+  subscriptionId: string;
+  /** Event names (`browsingContext.load`) or modules (`browsingContext`). */
+  events: string[];
+  tabIds?: number[];
+  frameIds?: number[];
+  /** URL glob patterns matched against the event's `url`. */
+  urlPatterns?: string[];
+}
+
+/** Subscription filters, without the ID. */
+type EventFilter = Omit<EventSubscription, "subscriptionId">;
+
+interface CompiledSubscription {
+  subscription: EventSubscription;
+  urlRegexes: RegExp[] | null;
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Checks whether an event name is covered by a subscribed name or module.
+ *
+ * @param name - Subscribed event or module name
+ * @param method - Event method name
+ * @returns True if covered
+ */
+function coversEvent(name: string, method: string): boolean {
+  return name === method || method.startsWith(`${name}.`);
+}
+
+/**
+ * Event subscriptions of one session.
+ */
+class EventSubscriptions {
+  private readonly subscriptions = new Map<string, CompiledSubscription>();
+  private subscribed = false;
+
+  /** True once the session has subscribed, until cleared. */
+  get active(): boolean {
+    return this.subscribed;
+  }
+
+  /**
+   * Adds a subscription.
+   *
+   * @param filter - Events and optional tab/frame/URL filters
+   * @returns Stored subscription
+   */
+  add(filter: EventFilter): EventSubscription {
+    const subscription: EventSubscription = {
+      subscriptionId: generateUUID(),
+      ...filter,
+    };
+    this.subscriptions.set(subscription.subscriptionId, {
+      subscription,
+      urlRegexes: filter.urlPatterns?.map(patternToRegex) ?? null,
+    });
+    this.subscribed = true;
+    return subscription;
+  }
+
+  /**
+   * Removes a subscription.
+   *
+   * @param subscriptionId - Subscription ID
+   * @returns True if it existed
+   */
+  remove(subscriptionId: string): boolean {
+    return this.subscriptions.delete(subscriptionId);
+  }
+
+  /** Removes all subscriptions; every event is sent again. */
+  clear(): void {
+    this.subscriptions.clear();
+    this.subscribed = false;
+  }
+
+  /**
+   * Lists subscriptions.
+   *
+   * @returns Subscriptions in creation order
+   */
+  list(): EventSubscription[] {
+    return Array.from(this.subscriptions.values(), (s) => s.subscription);
+  }
+
+  /**
+   * Checks whether an event should be sent.
+   *
+   * A filter only matches events that carry the filtered field.
+   *
+   * @param method - Event method name
+   * @param params - Event parameters
+   * @returns True if the session never subscribed or a subscription matches
+   */
+  matches(method: string, params: Record<string, unknown>): boolean {
+    if (!this.active) return true;
+
+    const { tabId, frameId, url } = params;
+
+    for (const { subscription, urlRegexes } of this.subscriptions.values()) {
+      if (!subscription.events.some((name) => coversEvent(name, method))) {
+        continue;
+      }
+      if (
+        subscription.tabIds &&
+        !subscription.tabIds.includes(tabId as number)
+      ) {
+        continue;
+      }
+      if (
+        subscription.frameIds &&
+        !subscription.frameIds.includes(frameId as number)
+      ) {
+        continue;
+      }
+      if (
+        urlRegexes &&
+        (typeof url !== "string" || !urlRegexes.some((re) => re.test(url)))
+      ) {
+        continue;
+      }
+      return true;
+    }
+
+    return false;
+  }
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { EventSubscription, EventFilter };
+export { EventSubscriptions, coversEvent };
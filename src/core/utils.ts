@@ -68,8 +68,94 @@ function generateUUID(): string {
   });
 }
 
+/**
+ * Compares two semver version strings (major.minor.patch).
+ *
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a < b, zero if equal, positive if a > b
+ *
+ * @example
+ *     compareVersions("1.2.0", "1.10.0"); // < 0
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map((n) => parseInt(n, 10) || 0);
+  const partsB = b.split(".").map((n) => parseInt(n, 10) || 0);
+
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Races a promise against an abort signal.
+ *
+ * The underlying operation keeps running if it ignores the signal; only the
+ * returned promise settles early.
+ *
+ * @param promise - Operation to wait for
+ * @param signal - Abort signal
+ * @returns Promise that rejects with `signal.reason` when aborted
+ *
+ * @example
+ *     const result = await raceAbort(fetchSomething(), ctx.signal);
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason as Error);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason as Error);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err as Error);
+      }
+    );
+  });
+}
+
+/**
+ * Converts webRequest headers to a name-value record.
+ *
+ * Headers without a text value are skipped; repeated headers keep the last.
+ *
+ * @param headers - webRequest headers
+ * @returns Header record
+ */
+function headersToRecord(
+  headers?: browser.webRequest.HttpHeaders
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (headers) {
+    for (const header of headers) {
+      if (header.value !== undefined) {
+        result[header.name] = header.value;
+      }
+    }
+  }
+  return result;
+}
+
 // ============================================================================
 // Exports
 // ============================================================================
 
-export { patternToRegex, generateUUID };
+export {
+  patternToRegex,
+  generateUUID,
+  compareVersions,
+  raceAbort,
+  headersToRecord,
+};
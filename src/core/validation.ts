@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Parameter validation against registered schemas.
+ * @module core/validation
+ */
+
+// ============================================================================
+// Imports
+// ============================================================================
+
+import type { ParamSchema, ParamSpec } from "../types/index.js";
+import { ErrorCode } from "../types/index.js";
+
+import { WebDriverError } from "./errors.js";
+
+// ============================================================================
+// Implementation - Helpers
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isInteger(value)) return "number";
+  if (typeof value === "number") return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, spec: ParamSpec): boolean {
+  switch (spec.type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "any":
+      return true;
+  }
+}
+
+function invalid(
+  path: string,
+  message: string,
+  data: Record<string, unknown> = {}
+): WebDriverError {
+  return new WebDriverError(
+    ErrorCode.InvalidArgument,
+    `Invalid argument at ${path}: ${message}`,
+    { path, ...data }
+  );
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Validates a single value against its spec.
+ *
+ * @param value - Value to check (never undefined or null)
+ * @param spec - Parameter spec
+ * @param path - Path used in error messages
+ * @throws WebDriverError (`invalid argument`) on mismatch
+ */
+function validateValue(value: unknown, spec: ParamSpec, path: string): void {
+  if (!matchesType(value, spec)) {
+    throw invalid(path, `expected ${spec.type}, got ${describeType(value)}`, {
+      expected: spec.type,
+      actual: describeType(value),
+    });
+  }
+
+  if (spec.enum && !spec.enum.includes(value as string | number)) {
+    throw invalid(path, `expected one of ${spec.enum.join(", ")}`, {
+      expected: spec.enum,
+    });
+  }
+
+  if (typeof value === "number") {
+    if (spec.minimum !== undefined && value < spec.minimum) {
+      throw invalid(path, `must be >= ${spec.minimum}`, {
+        minimum: spec.minimum,
+      });
+    }
+    if (spec.maximum !== undefined && value > spec.maximum) {
+      throw invalid(path, `must be <= ${spec.maximum}`, {
+        maximum: spec.maximum,
+      });
+    }
+  }
+
+  if (spec.items && Array.isArray(value)) {
+    const items = spec.items;
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (item === undefined || item === null) {
+        if (items.type !== "any") {
+          throw invalid(itemPath, `expected ${items.type}, got null`);
+        }
+        return;
+      }
+      validateValue(item, items, itemPath);
+    });
+  }
+
+  if (spec.properties && isPlainObject(value)) {
+    validateObject(value, spec.properties, path);
+  }
+}
+
+/**
+ * Validates an object's properties against a schema.
+ *
+ * Missing and `null` values count as absent, except that `null` satisfies a
+ * required `any` property. Properties not in the schema are passed through
+ * unchecked.
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: ParamSchema,
+  path: string
+): void {
+  for (const [key, spec] of Object.entries(schema)) {
+    const propPath = `${path}.${key}`;
+    const propValue = value[key];
+
+    if (propValue === undefined || propValue === null) {
+      // `null` is a value for `any` (e.g. clearing a property)
+      if (propValue === null && spec.type === "any") continue;
+      if (spec.required) {
+        throw invalid(propPath, "is required");
+      }
+      continue;
+    }
+
+    validateValue(propValue, spec, propPath);
+  }
+}
+
+/**
+ * Validates command parameters against a schema.
+ *
+ * @param params - Raw command parameters
+ * @param schema - Parameter schema
+ * @throws WebDriverError (`invalid argument`) with the offending `path`
+ *
+ * @example
+ *     validateParams({ index: "1" }, { index: { type: "integer" } });
+ *     // throws: Invalid argument at params.index: expected integer, got string
+ */
+function validateParams(params: unknown, schema: ParamSchema): void {
+  if (params === undefined || params === null) {
+    validateObject({}, schema, "params");
+    return;
+  }
+  if (!isPlainObject(params)) {
+    throw invalid("params", `expected object, got ${describeType(params)}`);
+  }
+  validateObject(params, schema, "params");
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { validateParams };
@@ -19,6 +19,9 @@ type SessionId = number & { readonly __brand: "SessionId" };
 /** Tab ID - Firefox-assigned tab identifier. */
 type TabId = number & { readonly __brand: "TabId" };
 
+/** Window ID - Firefox-assigned window identifier. */
+type WindowId = number & { readonly __brand: "WindowId" };
+
 /** Frame ID - Firefox-assigned frame identifier (0 = main frame). */
 type FrameId = number & { readonly __brand: "FrameId" };
 
@@ -68,6 +71,16 @@ function createTabId(id: number): TabId {
   return id as TabId;
 }
 
+/**
+ * Creates a WindowId from a number.
+ *
+ * @param id - Raw window ID
+ * @returns Branded WindowId
+ */
+function createWindowId(id: number): WindowId {
+  return id as WindowId;
+}
+
 /**
  * Creates a FrameId from a number.
  *
@@ -171,6 +184,7 @@ function isMainFrame(frameId: FrameId): boolean {
 export type {
   SessionId,
   TabId,
+  WindowId,
   FrameId,
   ElementId,
   RequestId,
@@ -183,6 +197,7 @@ export {
   MAIN_FRAME_ID,
   createSessionId,
   createTabId,
+  createWindowId,
   createFrameId,
   createElementId,
   createRequestId,
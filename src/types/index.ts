@@ -10,6 +10,7 @@
 export type {
   SessionId,
   TabId,
+  WindowId,
   FrameId,
   ElementId,
   RequestId,
@@ -22,6 +23,7 @@ export {
   MAIN_FRAME_ID,
   createSessionId,
   createTabId,
+  createWindowId,
   createFrameId,
   createElementId,
   createRequestId,
@@ -45,14 +47,30 @@ export type {
   Response,
   Event,
   EventReply,
+  MethodInfo,
+  Capabilities,
+  AuthProof,
   ReadyData,
+  AuthRequest,
+  AuthResult,
+  FrameElementInfo,
   RequestContext,
+  SelectorStrategy,
 } from "./protocol.js";
 
 export {
+  PROTOCOL_VERSION,
+  SELECTOR_STRATEGIES,
   ErrorCode,
   successResponse,
   errorResponse,
   isRequest,
   isEventReply,
+  isAuthRequest,
 } from "./protocol.js";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export type { ParamType, ParamSpec, ParamSchema } from "./schema.js";
@@ -8,11 +8,31 @@
 // ============================================================================
 
 import type { RequestId, TabId, FrameId } from "./identifiers.js";
+import type { ParamSchema } from "./schema.js";
 
 // ============================================================================
 // Constants
 // ============================================================================
 
+/** Protocol version implemented by this extension (semver). */
+const PROTOCOL_VERSION = "2.0.0";
+
+/** Element selector strategies understood by the content script. */
+const SELECTOR_STRATEGIES = [
+  "css",
+  "id",
+  "class",
+  "tag",
+  "name",
+  "xpath",
+  "text",
+  "partialText",
+  "linkText",
+  "partialLinkText",
+] as const;
+
+type SelectorStrategy = (typeof SELECTOR_STRATEGIES)[number];
+
 /** Error codes matching ARCHITECTURE.md Section 6.2. */
 const ErrorCode = {
   UnknownCommand: "unknown command",
@@ -21,11 +41,15 @@ const ErrorCode = {
   StaleElement: "stale element",
   NoSuchFrame: "no such frame",
   NoSuchTab: "no such tab",
+  NoSuchWindow: "no such window",
   NoSuchIntercept: "no such intercept",
   NoSuchScript: "no such script",
+  NoSuchHandle: "no such handle",
   ScriptError: "script error",
   Timeout: "timeout",
   ConnectionClosed: "connection closed",
+  UnsupportedProtocol: "unsupported protocol",
+  SessionNotCreated: "session not created",
   UnknownError: "unknown error",
 } as const;
 
@@ -47,6 +71,8 @@ interface Request {
   frameId: FrameId;
   /** Command-specific parameters. */
   params?: Record<string, unknown>;
+  /** Optional deadline in milliseconds; the command fails with `timeout` when exceeded. */
+  deadlineMs?: number;
 }
 
 // ============================================================================
@@ -73,6 +99,8 @@ interface ErrorResponse {
   error: string;
   /** Human-readable error message. */
   message: string;
+  /** Optional machine-readable details (selector, frameId, page stack, ...). */
+  data?: Record<string, unknown>;
 }
 
 /** Response union type. */
@@ -108,16 +136,105 @@ interface EventReply {
   result: Record<string, unknown>;
 }
 
+// ============================================================================
+// Types - Capabilities
+// ============================================================================
+
+/** Command description advertised to the driver. */
+interface MethodInfo {
+  /** Command name in module.methodName format. */
+  method: string;
+  /** Parameter schema. */
+  params: ParamSchema;
+}
+
+/** Features supported by this extension build. */
+interface Capabilities {
+  /** Protocol version (semver). */
+  protocolVersion: string;
+  /** Extension version from the manifest. */
+  extensionVersion: string;
+  /** Registered commands. */
+  methods: MethodInfo[];
+  /** Element selector strategies. */
+  strategies: readonly SelectorStrategy[];
+  /** Event names the extension may emit. */
+  events: string[];
+}
+
 // ============================================================================
 // Types - READY Handshake
 // ============================================================================
 
+/**
+ * HMAC-SHA256 proof of the shared key.
+ *
+ * The driver signs `init:<sessionId>:<wsUrl>:<nonce>` in WEBDRIVER_INIT; the
+ * extension answers in READY by signing `ready:<sessionId>:<driverNonce>:<nonce>`
+ * with a fresh nonce on every connection.
+ */
+interface AuthProof {
+  /** Random, single-use nonce. */
+  nonce: string;
+  /** Hex-encoded HMAC. */
+  mac: string;
+}
+
 /** Data sent with READY handshake. */
 interface ReadyData {
   /** Session ID from init message. */
   sessionId: number;
   /** Initial tab ID. */
-  tabId: number;
+  tabId: number | null;
+  /** Token identifying this session across reconnects. */
+  resumeToken: string;
+  /** True if this READY follows a reconnect. */
+  resumed: boolean;
+  /** Supported protocol version, commands, strategies and events. */
+  capabilities: Capabilities;
+  /** Extension's answer to the driver's init proof; its nonce is the connection challenge. */
+  auth: AuthProof;
+}
+
+/**
+ * Driver's proof for a connection, the first message after READY.
+ *
+ * Nothing is dispatched on a connection until this verifies.
+ */
+interface AuthRequest {
+  /** Correlates the response. */
+  id: RequestId;
+  /** Message type discriminator. */
+  type: "auth";
+  /** Hex HMAC-SHA256 of `connect:<sessionId>:<readyNonce>`. */
+  mac: string;
+}
+
+/** Result of a successful AuthRequest. */
+interface AuthResult {
+  /** True if this connection follows a reconnect. */
+  resumed: boolean;
+  /** Module state snapshot (only when resumed). */
+  state?: Record<string, unknown>;
+}
+
+// ============================================================================
+// Types - Frames
+// ============================================================================
+
+/**
+ * `<iframe>` or `<frame>` element owning a child frame, as reported by the
+ * content script of its parent frame.
+ */
+interface FrameElementInfo {
+  /** Child frame ID, or -1 if the element has no browsing context. */
+  frameId: number;
+  tagName: string;
+  name: string | null;
+  id: string | null;
+  src: string | null;
+  /** Border box in the parent frame's viewport (CSS pixels). */
+  rect: { x: number; y: number; width: number; height: number };
 }
 
 // ============================================================================
@@ -130,6 +247,10 @@ interface RequestContext {
   tabId: TabId;
   /** Frame ID within the tab. */
   frameId: FrameId;
+  /** Session the request arrived on. */
+  sessionId: number;
+  /** Aborted when the request is cancelled or its deadline passes. */
+  signal: AbortSignal;
 }
 
 // ============================================================================
@@ -153,14 +274,20 @@ function successResponse(id: RequestId, result: unknown): SuccessResponse {
  * @param id - Request ID to respond to
  * @param error - Error code
  * @param message - Human-readable message
+ * @param data - Optional error details
  * @returns Error response
  */
 function errorResponse(
   id: RequestId,
   error: string,
-  message: string
+  message: string,
+  data?: Record<string, unknown>
 ): ErrorResponse {
-  return { id, type: "error", error, message };
+  const response: ErrorResponse = { id, type: "error", error, message };
+  if (data !== undefined) {
+    response.data = data;
+  }
+  return response;
 }
 
 /**
@@ -201,6 +328,24 @@ function isEventReply(value: unknown): value is EventReply {
   );
 }
 
+/**
+ * Type guard for AuthRequest.
+ *
+ * @param value - Value to check
+ * @returns True if value is an AuthRequest
+ */
+function isAuthRequest(value: unknown): value is AuthRequest {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.id === "string" &&
+    obj.type === "auth" &&
+    typeof obj.mac === "string"
+  );
+}
+
 // ============================================================================
 // Exports
 // ============================================================================
@@ -212,8 +357,24 @@ export type {
   Response,
   Event,
   EventReply,
+  MethodInfo,
+  Capabilities,
+  AuthProof,
   ReadyData,
+  AuthRequest,
+  AuthResult,
+  FrameElementInfo,
   RequestContext,
+  SelectorStrategy,
 };
 
-export { ErrorCode, successResponse, errorResponse, isRequest, isEventReply };
+export {
+  PROTOCOL_VERSION,
+  SELECTOR_STRATEGIES,
+  ErrorCode,
+  successResponse,
+  errorResponse,
+  isRequest,
+  isEventReply,
+  isAuthRequest,
+};
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Parameter schema types for command descriptions.
+ * @module types/schema
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Parameter value type. */
+type ParamType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "any";
+
+/** Describes a single command parameter. */
+interface ParamSpec {
+  /** Value type. */
+  type: ParamType;
+  /** Whether the parameter must be present. */
+  required?: boolean;
+  /** Allowed values. */
+  enum?: readonly (string | number)[];
+  /** Minimum value (numbers only). */
+  minimum?: number;
+  /** Maximum value (numbers only). */
+  maximum?: number;
+  /** Element schema (arrays only). */
+  items?: ParamSpec;
+  /** Property schemas (objects only). */
+  properties?: ParamSchema;
+}
+
+/** Parameter schema for a command, keyed by parameter name. */
+type ParamSchema = Readonly<Record<string, ParamSpec>>;
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export type { ParamType, ParamSpec, ParamSchema };